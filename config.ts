@@ -1,13 +1,199 @@
-import { Config, Duration } from "effect";
-import { tmpdir } from "os";
+import { Config, ConfigError, Cron, DateTime, Duration, Either, Option } from "effect";
+import { homedir, tmpdir } from "os";
+import { join } from "path";
+import { parseListeningSchedule } from "./utils/schedule";
+
+const notificationEvents = (name: string) =>
+  Config.option(
+    Config.array(
+      Config.literal(
+        "buffer_low",
+        "buffer_recovered",
+        "stream_down",
+        "stream_recovered",
+        "player_exit",
+      )(),
+      name,
+    ),
+  );
 
 export const AppConfig = {
-  StreamUrl: Config.string("STREAM_URL"),
+  // JSON or TOML (by extension) with the same names as the environment variables, which
+  // take precedence over it
+  ConfigFile: Config.option(Config.string("CONFIG_FILE")),
+  // Comma-separated; the first URL is the primary, the rest are mirrors in failover order
+  StreamUrls: Config.array(Config.string(), "STREAM_URL"),
+  MirrorFailureThreshold: Config.integer("MIRROR_FAILURE_THRESHOLD").pipe(Config.withDefault(3)),
+  MirrorPrimaryCooldown: Config.duration("MIRROR_PRIMARY_COOLDOWN").pipe(
+    Config.withDefault(Duration.minutes(15)),
+  ),
   BufferDuration: Config.duration("BUFFER_DURATION").pipe(Config.withDefault(Duration.hours(1))),
   BufferTempDir: Config.string("BUFFER_TEMP_DIR").pipe(Config.withDefault(tmpdir())),
-  InitialBufferMinutes: Config.integer("INITIAL_BUFFER_MINUTES").pipe(Config.withDefault(1)),
+  // BUFFER_PERSIST=true predates BUFFER_STORE and still selects the persistent store
+  BufferStore: Config.all([
+    Config.option(Config.literal("memory", "temp", "persistent")("BUFFER_STORE")),
+    Config.boolean("BUFFER_PERSIST").pipe(Config.withDefault(false)),
+  ]).pipe(
+    Config.map(([store, persist]) =>
+      Option.getOrElse(store, () => (persist ? "persistent" : "temp")),
+    ),
+  ),
+  BufferMaxAge: Config.duration("BUFFER_MAX_AGE").pipe(Config.withDefault(Duration.hours(2))),
+  DataDir: Config.string("DATA_DIR").pipe(Config.withDefault(join(homedir(), ".classicfm"))),
+  HistoryRetention: Config.duration("HISTORY_RETENTION").pipe(
+    Config.withDefault(Duration.days(90)),
+  ),
+  InitialBufferMinutes: Config.integer("INITIAL_BUFFER_MINUTES").pipe(
+    Config.validate({ message: "Expected 0 or more minutes", validation: (m) => m >= 0 }),
+    Config.withDefault(1),
+  ),
   HealthPort: Config.integer("HEALTH_PORT").pipe(Config.withDefault(3000)),
-  RebuildHour: Config.integer("REBUILD_HOUR").pipe(Config.withDefault(4)),
+  PlayerBackend: Config.literal(
+    "ffplay",
+    "mpv",
+    "alsa",
+    "pulse",
+    "file",
+    "null",
+  )("PLAYER_BACKEND").pipe(Config.withDefault("ffplay" as const)),
+  // ALSA or PulseAudio output device for the alsa/pulse backends
+  PlayerDevice: Config.string("PLAYER_DEVICE").pipe(Config.withDefault("default")),
+  PlayerFile: Config.string("PLAYER_FILE").pipe(
+    Config.withDefault(join(tmpdir(), "classicfm-playback.mp3")),
+  ),
+  // Percent (0-200); used until a volume is set through the API
+  Volume: Config.number("VOLUME").pipe(
+    Config.validate({
+      message: "Expected a percentage from 0 to 200",
+      validation: (volume) => volume >= 0 && volume <= 200,
+    }),
+    Config.withDefault(130),
+  ),
+  ListenMaxClients: Config.integer("LISTEN_MAX_CLIENTS").pipe(Config.withDefault(5)),
+  ListenIcyMetadata: Config.boolean("LISTEN_ICY_METADATA").pipe(Config.withDefault(true)),
+  // IANA name such as Europe/Amsterdam; defaults to the system timezone
+  Timezone: Config.string("TIMEZONE").pipe(
+    Config.mapOrFail((zone) =>
+      Option.match(DateTime.zoneMakeNamed(zone), {
+        onNone: () => Either.left(ConfigError.InvalidData([], `Unknown timezone: ${zone}`)),
+        onSome: Either.right,
+      }),
+    ),
+    Config.withDefault(DateTime.zoneMakeLocal()),
+  ),
+  // Play windows such as "mon-fri 07:00-22:00; sat,sun 08:30-23:00"; empty plays all day
+  ListeningSchedule: Config.string("LISTENING_SCHEDULE").pipe(
+    Config.mapOrFail((spec) =>
+      Either.mapLeft(parseListeningSchedule(spec), (message) =>
+        ConfigError.InvalidData([], message),
+      ),
+    ),
+    Config.withDefault([]),
+  ),
+  RebuildHour: Config.integer("REBUILD_HOUR").pipe(
+    Config.validate({
+      message: "Expected an hour from 0 to 23",
+      validation: (hour) => hour >= 0 && hour <= 23,
+    }),
+    Config.withDefault(4),
+  ),
+  // Cron expression in TIMEZONE such as "0 4 * * *" or "30 3 * * mon,thu"; replaces REBUILD_HOUR
+  RebuildCron: Config.option(
+    Config.string("REBUILD_CRON").pipe(
+      Config.mapOrFail((expr) =>
+        Either.mapBoth(Cron.parse(expr), {
+          onLeft: (e) => ConfigError.InvalidData([], e.message),
+          onRight: () => expr,
+        }),
+      ),
+    ),
+  ),
+  RebuildPolicy: Config.literal(
+    "always",
+    "skip-if-healthy",
+  )("REBUILD_POLICY").pipe(Config.withDefault("always" as const)),
+  // How long the buffer must have been healthy and gap-free for skip-if-healthy to skip
+  RebuildSkipWindow: Config.duration("REBUILD_SKIP_WINDOW").pipe(
+    Config.withDefault(Duration.hours(24)),
+  ),
+  // JSON lines alongside the console output; off unless LOG_FILE is set
+  LogFile: Config.option(Config.string("LOG_FILE")),
+  // The file is rotated once it reaches either limit
+  LogMaxSizeMb: Config.number("LOG_MAX_SIZE_MB").pipe(Config.withDefault(10)),
+  LogMaxAge: Config.duration("LOG_MAX_AGE").pipe(Config.withDefault(Duration.days(1))),
+  // Rotated files to keep
+  LogRetention: Config.integer("LOG_RETENTION").pipe(Config.withDefault(7)),
+  // Sentry when SENTRY_DSN is set, otherwise the console, so nothing leaves the machine
+  // unless it's asked to
+  TelemetryBackend: Config.all([
+    Config.option(Config.literal("sentry", "console", "file", "none")("TELEMETRY_BACKEND")),
+    Config.option(Config.string("SENTRY_DSN")),
+  ]).pipe(
+    Config.map(([backend, dsn]) =>
+      Option.getOrElse(backend, () => (Option.isSome(dsn) ? "sentry" : "console")),
+    ),
+  ),
+  // Defaults to DATA_DIR/telemetry.jsonl
+  TelemetryFile: Config.option(Config.string("TELEMETRY_FILE")),
+  SentryDsn: Config.option(Config.redacted("SENTRY_DSN")),
+  SentryEnvironment: Config.string("SENTRY_ENVIRONMENT").pipe(
+    Config.orElse(() => Config.string("NODE_ENV")),
+    Config.withDefault("development"),
+  ),
+  // Share of errors sent, from 0 to 1
+  SentrySampleRate: Config.number("SENTRY_SAMPLE_RATE").pipe(
+    Config.validate({
+      message: "Expected a number from 0 to 1",
+      validation: (rate) => rate >= 0 && rate <= 1,
+    }),
+    Config.withDefault(1),
+  ),
+  // A connection whose throughput stays below STALL_RATIO of the stream's bitrate for
+  // STALL_DURATION is reconnected; 0 turns this off
+  StallRatio: Config.number("STALL_RATIO").pipe(
+    Config.validate({
+      message: "Expected a ratio from 0 to 1",
+      validation: (ratio) => ratio >= 0 && ratio <= 1,
+    }),
+    Config.withDefault(0.5),
+  ),
+  StallDuration: Config.duration("STALL_DURATION").pipe(Config.withDefault(Duration.seconds(30))),
+  // Ingested audio is decoded with ffmpeg to measure its level; a stream that stays below
+  // SILENCE_THRESHOLD_DB for SILENCE_DURATION is reconnected, or switched to a mirror.
+  // Off by default, since it keeps an ffmpeg decoder running alongside the stream
+  SilenceDetection: Config.boolean("SILENCE_DETECTION").pipe(Config.withDefault(false)),
+  SilenceThresholdDb: Config.number("SILENCE_THRESHOLD_DB").pipe(Config.withDefault(-50)),
+  SilenceDuration: Config.duration("SILENCE_DURATION").pipe(
+    Config.withDefault(Duration.seconds(60)),
+  ),
+  FfmpegPath: Config.string("FFMPEG_PATH").pipe(Config.withDefault("ffmpeg")),
+  // Percent the buffer has to drop below, after being healthy, to report it as low
+  BufferLowPercent: Config.number("BUFFER_LOW_PERCENT").pipe(
+    Config.validate({
+      message: "Expected a percentage from 0 to 100",
+      validation: (percent) => percent >= 0 && percent <= 100,
+    }),
+    Config.withDefault(20),
+  ),
+  // Each sink is enabled by its URL or command, and gets every event unless its
+  // NOTIFY_*_EVENTS lists the ones it should get
+  NotifyWebhookUrl: Config.option(Config.string("NOTIFY_WEBHOOK_URL")),
+  NotifyWebhookEvents: notificationEvents("NOTIFY_WEBHOOK_EVENTS"),
+  // An ntfy topic URL such as https://ntfy.sh/grandma-radio, or a Gotify server URL
+  NotifyPushUrl: Config.option(Config.string("NOTIFY_PUSH_URL")),
+  NotifyPushFormat: Config.literal(
+    "ntfy",
+    "gotify",
+  )("NOTIFY_PUSH_FORMAT").pipe(Config.withDefault("ntfy" as const)),
+  NotifyPushToken: Config.option(Config.redacted("NOTIFY_PUSH_TOKEN")),
+  NotifyPushEvents: notificationEvents("NOTIFY_PUSH_EVENTS"),
+  NotifyCommand: Config.option(Config.string("NOTIFY_COMMAND")),
+  NotifyCommandEvents: notificationEvents("NOTIFY_COMMAND_EVENTS"),
+  // Per sink, per hour
+  NotifyRateLimit: Config.integer("NOTIFY_RATE_LIMIT").pipe(Config.withDefault(10)),
+  NotifyDedupeWindow: Config.duration("NOTIFY_DEDUPE_WINDOW").pipe(
+    Config.withDefault(Duration.minutes(30)),
+  ),
   // 192kbps = 24KB/s
   BitrateKBps: Config.integer("BITRATE_KBPS").pipe(Config.withDefault(24)),
 };
@@ -3,10 +3,10 @@ import { MainLayer } from "./layers/MainLayer";
 import { PlaybackService } from "./services/PlaybackService";
 import { SchedulerService } from "./services/SchedulerService";
 import { HealthService } from "./services/HealthService";
-import { captureExceptionSync, flushSentry, initSentry } from "./utils/sentry";
+import { Telemetry } from "./services/Telemetry";
+import { ConfigService } from "./services/ConfigService";
 
 const program = Effect.gen(function* () {
-  yield* initSentry();
   yield* Console.log("🎵 Classic FM Buffer Player");
 
   const health = yield* HealthService;
@@ -27,11 +27,12 @@ const shutdown = Effect.gen(function* () {
   const playback = yield* PlaybackService;
   const scheduler = yield* SchedulerService;
   const health = yield* HealthService;
+  const telemetry = yield* Telemetry;
 
   yield* playback.stop();
   yield* scheduler.stop();
   yield* health.stop();
-  yield* flushSentry();
+  yield* telemetry.flush();
 });
 
 const runtime = ManagedRuntime.make(MainLayer);
@@ -53,15 +54,30 @@ const handleShutdown = (exitCode = 0) => {
     .finally(() => runtime.dispose().finally(() => process.exit(shutdownExitCode)));
 };
 
+// Reported through the runtime, which may never have started if the layers failed
 const reportFatal = (error: unknown, tags: { component: string; event: string }) => {
-  captureExceptionSync(error, { tags });
-  handleShutdown(1);
+  runtime
+    .runPromise(
+      Effect.flatMap(Telemetry, (telemetry) => telemetry.captureException(error, { tags })),
+    )
+    .catch(() => {})
+    .finally(() => handleShutdown(1));
 };
 
 const handleFatal = (error: unknown, event: "uncaughtException" | "unhandledRejection") => {
   reportFatal(error, { component: "process", event });
 };
 
+// Reloads the settings that can change without restarting playback; failures are logged
+process.on("SIGHUP", () => {
+  runtime
+    .runPromise(
+      Effect.flatMap(ConfigService, (config) => config.reload()).pipe(
+        Effect.provide(Logger.minimumLogLevel(LogLevel.Info)),
+      ),
+    )
+    .catch(() => {});
+});
 process.on("SIGINT", () => handleShutdown(0));
 process.on("SIGTERM", () => handleShutdown(0));
 process.on("uncaughtException", (err) => handleFatal(err, "uncaughtException"));
@@ -2,12 +2,39 @@ import { Layer } from "effect";
 import { BufferServiceLive } from "../services/BufferService";
 import { StreamServiceLive } from "../services/StreamService";
 import { PlaybackServiceLive } from "../services/PlaybackService";
+import { PlayerBackendLive } from "../services/PlayerBackend";
 import { SchedulerServiceLive } from "../services/SchedulerService";
 import { HealthServiceLive } from "../services/HealthService";
+import { ListenServiceLive } from "../services/ListenService";
+import { VolumeServiceLive } from "../services/VolumeService";
+import { EventServiceLive } from "../services/EventService";
+import { BufferStoreLive } from "../services/BufferStore";
+import { HistoryServiceLive } from "../services/HistoryService";
+import { NotifierLive } from "../services/Notifier";
+import { TelemetryLive } from "../services/Telemetry";
+import { SilenceDetectorLive } from "../services/SilenceDetector";
+import { LogContextLive, LogFileLive } from "../services/LogFile";
+import { ConfigServiceLive } from "../services/ConfigService";
 
-const Base = Layer.merge(BufferServiceLive, StreamServiceLive);
+const Base = Layer.provideMerge(
+  Layer.mergeAll(EventServiceLive, BufferStoreLive, TelemetryLive, SilenceDetectorLive),
+)(
+  Layer.mergeAll(
+    BufferServiceLive,
+    StreamServiceLive,
+    PlayerBackendLive,
+    VolumeServiceLive,
+    HistoryServiceLive,
+    NotifierLive,
+  ),
+);
 const Playback = Layer.provideMerge(Base)(PlaybackServiceLive);
 const Scheduler = Layer.provideMerge(Playback)(SchedulerServiceLive);
-const Health = Layer.provideMerge(Scheduler)(HealthServiceLive);
+const Listen = Layer.provideMerge(Scheduler)(ListenServiceLive);
+const Health = Layer.provideMerge(Listen)(HealthServiceLive);
+// The log file comes first so it records every layer starting up, and the config before
+// that so every layer reads CONFIG_FILE
+const Logs = Layer.provideMerge(Health)(LogContextLive);
+const Logged = Layer.provideMerge(LogFileLive)(Logs);
 
-export const MainLayer = Health;
+export const MainLayer = Layer.provideMerge(ConfigServiceLive)(Logged);
@@ -1,7 +1,20 @@
-import { Context, Effect, Layer, Duration, SynchronizedRef } from "effect";
-import { promises as fs } from "fs";
-import { join } from "path";
+import {
+  Context,
+  Effect,
+  Exit,
+  Layer,
+  Duration,
+  Metric,
+  Queue,
+  Ref,
+  Stream,
+  SubscriptionRef,
+  SynchronizedRef,
+} from "effect";
+import { BufferSegment, BufferStore } from "./BufferStore";
 import { AppConfig } from "../config";
+import { discontinuities } from "../utils/metrics";
+import { findFrameSync, MAX_BYTES_PER_MS, MAX_FRAME_LENGTH, parseFrameHeader } from "../utils/mp3";
 
 export interface BufferHealth {
   durationMinutes: number;
@@ -9,12 +22,80 @@ export interface BufferHealth {
   targetSize: number;
   percentage: number;
   isHealthy: boolean;
+  // Gaps in the recording still ahead of playback
+  discontinuities: number;
+  missingSeconds: number;
+}
+
+export interface DiscontinuityMark {
+  // Absolute position of the first byte after the gap
+  position: number;
+  gapMs: number;
+  reason: string;
+}
+
+export interface AudioChunk {
+  data: Uint8Array;
+  durationMs: number;
+  // Set when the audio after this chunk doesn't follow on from it
+  gapAfter: DiscontinuityMark | null;
+}
+
+export interface BufferCursor {
+  position: number;
+  synced: boolean;
+}
+
+export interface CursorRead {
+  chunk: AudioChunk | null;
+  cursor: BufferCursor;
+  // True if the cursor had fallen out of the buffer and was moved to the playback position
+  moved: boolean;
+  title: string | null;
+}
+
+export interface BufferStability {
+  // null while the buffer is below the healthy level
+  healthySince: Date | null;
+  lastDiscontinuity: Date | null;
+}
+
+export interface NowPlaying {
+  playing: string | null;
+  live: string | null;
+}
+
+interface TitleMark {
+  position: number;
+  title: string;
+}
+
+// The fresh segment a rebuild fills while playback drains the current one. It never
+// wraps: the rebuild cuts over to it once it's full at the latest.
+interface StagingRing {
+  segment: BufferSegment;
+  targetSize: number;
+  totalSize: number;
+  // Absolute position of its first byte; a frame boundary when `synced`
+  startPosition: number;
+  synced: boolean;
 }
 
 interface BufferState {
+  targetSize: number;
+  bytesPerSecond: number;
   totalSize: number;
   readOffset: number;
   writeOffset: number;
+  // Absolute number of bytes ever appended; the read position is writePosition - totalSize
+  writePosition: number;
+  titles: TitleMark[];
+  discontinuities: DiscontinuityMark[];
+  // False after anything that may leave readOffset mid-frame (clear, overflow, restore)
+  synced: boolean;
+  // Absolute position of the oldest byte still on disk, ignoring ring wraparound
+  validFrom: number;
+  staging: StagingRing | null;
 }
 
 export class BufferService extends Context.Tag("BufferService")<
@@ -24,88 +105,339 @@ export class BufferService extends Context.Tag("BufferService")<
     readonly clear: () => Effect.Effect<void>;
     readonly append: (chunk: Uint8Array) => Effect.Effect<void>;
     readonly consume: (bytes: number) => Effect.Effect<Uint8Array | null>;
+    readonly consumeFrames: (targetMs: number) => Effect.Effect<AudioChunk | null>;
+    readonly readFrames: (cursor: BufferCursor, targetMs: number) => Effect.Effect<CursorRead>;
+    readonly getReadPosition: () => Effect.Effect<number>;
+    readonly recordTitle: (title: string) => Effect.Effect<void>;
+    readonly setBitrate: (kbps: number) => Effect.Effect<void>;
+    readonly getNowPlaying: () => Effect.Effect<NowPlaying>;
     readonly getHealth: () => Effect.Effect<BufferHealth>;
+    // The current health, then again whenever the fill level moves by a whole percent
+    readonly healthChanges: () => Stream.Stream<BufferHealth>;
+    readonly getStability: () => Effect.Effect<BufferStability>;
+    // Marks a gap in the recorded audio at the write position, such as a dropped stream
+    // connection; playback fades out and back in across it
+    readonly recordDiscontinuity: (reason: string, gapMs: number) => Effect.Effect<void>;
     readonly waitForTarget: () => Effect.Effect<void>;
     readonly waitForMinutes: (minutes: number) => Effect.Effect<void>;
+    // Waits until audio newer than what's buffered now arrives
+    readonly waitForAudio: () => Effect.Effect<void>;
+    // Starts filling a fresh buffer file; false if a rebuild is already running
+    readonly startRebuild: () => Effect.Effect<boolean>;
+    readonly waitForCutover: () => Effect.Effect<void>;
+    readonly cancelRebuild: () => Effect.Effect<void>;
   }
 >() {}
 
+interface PersistedBufferState extends Omit<BufferState, "synced" | "validFrom" | "staging"> {
+  version: 1;
+  savedAt: number;
+}
+
+const emptyState = (targetSize: number, bytesPerSecond: number): BufferState => ({
+  targetSize,
+  bytesPerSecond,
+  totalSize: 0,
+  readOffset: 0,
+  writeOffset: 0,
+  writePosition: 0,
+  titles: [],
+  discontinuities: [],
+  synced: false,
+  validFrom: 0,
+  staging: null,
+});
+
+const frameWindowSize = (targetMs: number) =>
+  Math.ceil(targetMs * MAX_BYTES_PER_MS) + 2 * MAX_FRAME_LENGTH;
+
+// Locates whole frames adding up to at least targetMs in `window`. Bytes before `start`
+// are garbage to skip; if no frame boundary is found, only the tail is kept since it may
+// hold the start of a frame that isn't complete yet.
+const spanFrames = (window: Uint8Array, synced: boolean, targetMs: number) => {
+  let start = 0;
+  if (!synced || !parseFrameHeader(window, 0)) {
+    start = findFrameSync(window, 0);
+    if (start < 0) {
+      const skip = Math.max(0, window.length - 3 * MAX_FRAME_LENGTH);
+      return { start: skip, end: skip, durationMs: 0, synced: false };
+    }
+  }
+
+  let end = start;
+  let durationMs = 0;
+  while (durationMs < targetMs) {
+    const header = parseFrameHeader(window, end);
+    if (!header || end + header.frameLength > window.length) break;
+    end += header.frameLength;
+    durationMs += header.durationMs;
+  }
+
+  return { start, end, durationMs, synced: true };
+};
+
+const titleAt = (state: BufferState, position: number) => {
+  const mark = state.titles.findLast((title) => title.position <= position);
+  return mark?.title || null;
+};
+
+// Audio available to play, counting what a rebuild has staged so far
+const bufferedSize = (state: BufferState) => state.totalSize + (state.staging?.totalSize ?? 0);
+
+// Where the next appended byte goes, which is in the staging ring during a rebuild
+const liveWritePosition = (state: BufferState) =>
+  state.staging ? state.staging.startPosition + state.staging.totalSize : state.writePosition;
+
+// Finds the start of the frame that is still incomplete at the end of `tail`, or the end
+// of `tail` if the last frame is whole. -1 if the tail doesn't end in parseable frames.
+const trailingFrameStart = (tail: Uint8Array) => {
+  let offset = findFrameSync(tail, 0);
+  if (offset < 0) return -1;
+
+  let header = parseFrameHeader(tail, offset);
+  while (header && offset + header.frameLength <= tail.length) {
+    offset += header.frameLength;
+    header = parseFrameHeader(tail, offset);
+  }
+  return header || offset === tail.length ? offset : -1;
+};
+
+// Drops titles that have been played, keeping the one that is playing now, and gaps
+// that playback has crossed
+const pruneMarks = (state: BufferState): BufferState => {
+  const readPosition = state.writePosition - state.totalSize;
+  let firstKept = 0;
+  while ((state.titles[firstKept + 1]?.position ?? Infinity) <= readPosition) {
+    firstKept += 1;
+  }
+  const discontinuities = state.discontinuities.filter((mark) => mark.position > readPosition);
+  return firstKept === 0 && discontinuities.length === state.discontinuities.length
+    ? state
+    : { ...state, titles: state.titles.slice(firstKept), discontinuities };
+};
+
+const isTitleMark = (value: unknown): value is TitleMark =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as TitleMark).title === "string" &&
+  Number.isInteger((value as TitleMark).position);
+
+const isDiscontinuityMark = (value: unknown): value is DiscontinuityMark =>
+  typeof value === "object" &&
+  value !== null &&
+  Number.isInteger((value as DiscontinuityMark).position) &&
+  typeof (value as DiscontinuityMark).gapMs === "number" &&
+  typeof (value as DiscontinuityMark).reason === "string";
+
+const isOffset = (value: unknown, max: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= max;
+
+// Returns the restored state, or a reason why the saved state can't be trusted
+const validatePersistedState = (raw: unknown, fileSize: number): PersistedBufferState | string => {
+  if (typeof raw !== "object" || raw === null) return "state is not an object";
+
+  const state = raw as Partial<PersistedBufferState>;
+  if (state.version !== 1) return `unsupported version ${state.version}`;
+  if (!isOffset(state.targetSize, Number.MAX_SAFE_INTEGER) || state.targetSize === 0) {
+    return "invalid target size";
+  }
+  if (typeof state.bytesPerSecond !== "number" || !(state.bytesPerSecond > 0)) {
+    return "invalid bitrate";
+  }
+  const targetSize = state.targetSize;
+  if (typeof state.savedAt !== "number" || !Number.isFinite(state.savedAt)) {
+    return "missing savedAt";
+  }
+  if (
+    !isOffset(state.totalSize, targetSize) ||
+    !isOffset(state.readOffset, targetSize - 1) ||
+    !isOffset(state.writeOffset, targetSize - 1)
+  ) {
+    return "offsets out of range";
+  }
+  if ((state.readOffset + state.totalSize) % targetSize !== state.writeOffset) {
+    return "offsets are inconsistent";
+  }
+  if (
+    !isOffset(state.writePosition, Number.MAX_SAFE_INTEGER) ||
+    state.writePosition < state.totalSize
+  ) {
+    return "write position out of range";
+  }
+  if (!Array.isArray(state.titles) || !state.titles.every(isTitleMark)) {
+    return "titles are malformed";
+  }
+  // Absent from states saved before discontinuities were recorded
+  const discontinuities = state.discontinuities ?? [];
+  if (!Array.isArray(discontinuities) || !discontinuities.every(isDiscontinuityMark)) {
+    return "discontinuities are malformed";
+  }
+
+  const extent = Math.min(targetSize, state.readOffset + state.totalSize);
+  if (fileSize < extent) return `buffer file is truncated (${fileSize} < ${extent})`;
+
+  return { ...(state as PersistedBufferState), discontinuities };
+};
+
+// Drops everything that was ingested longer than maxAgeMs ago
+const discardExpired = (
+  state: PersistedBufferState,
+  maxAgeMs: number,
+  now: number,
+): BufferState => {
+  const { targetSize, bytesPerSecond } = state;
+  const newestAgeMs = now - state.savedAt;
+  if (newestAgeMs < 0 || newestAgeMs >= maxAgeMs) {
+    return pruneMarks({
+      ...state,
+      totalSize: 0,
+      readOffset: state.writeOffset,
+      synced: false,
+      validFrom: state.writePosition,
+      staging: null,
+    });
+  }
+
+  const oldestIngestedAt = state.savedAt - (state.totalSize / bytesPerSecond) * 1000;
+  const expiredMs = Math.max(0, now - maxAgeMs - oldestIngestedAt);
+  const drop = Math.min(state.totalSize, Math.ceil((expiredMs / 1000) * bytesPerSecond));
+
+  return pruneMarks({
+    targetSize,
+    bytesPerSecond,
+    totalSize: state.totalSize - drop,
+    readOffset: (state.readOffset + drop) % targetSize,
+    writeOffset: state.writeOffset,
+    writePosition: state.writePosition,
+    titles: state.titles,
+    discontinuities: state.discontinuities,
+    synced: false,
+    validFrom: state.writePosition - state.totalSize + drop,
+    staging: null,
+  });
+};
+
 export const BufferServiceLive = Layer.scoped(
   BufferService,
   Effect.gen(function* () {
     const bufferDuration = yield* AppConfig.BufferDuration;
     const bitrateKBps = yield* AppConfig.BitrateKBps;
-    const bufferTempDir = yield* AppConfig.BufferTempDir;
-    const targetSize = Math.floor(Duration.toSeconds(bufferDuration) * bitrateKBps * 1024);
-
-    const bufferFile = yield* Effect.acquireRelease(
-      Effect.tryPromise({
-        try: async () => {
-          await fs.mkdir(bufferTempDir, { recursive: true });
-          const dir = await fs.mkdtemp(join(bufferTempDir, "classicfm-buffer-"));
-          const path = join(dir, "buffer.dat");
-          const handle = await fs.open(path, "w+");
-          return { dir, path, handle };
-        },
-        catch: (e) => new Error(`Failed to create buffer file: ${e}`),
-      }).pipe(Effect.orDie),
-      (resource) =>
-        Effect.tryPromise({
-          try: async () => {
-            await resource.handle.close();
-            await fs.rm(resource.dir, { recursive: true, force: true });
-          },
-          catch: (e) => new Error(`Failed to cleanup buffer file: ${e}`),
-        }).pipe(Effect.catchAll(() => Effect.void)),
-    );
+    const maxAge = yield* AppConfig.BufferMaxAge;
+    const store = yield* BufferStore;
+    const persist = store.durable;
+    // Until the stream reports its bitrate, size the buffer from BITRATE_KBPS
+    const configuredBytesPerSecond = bitrateKBps * 1024;
+    const sizeFor = (bytesPerSecond: number) =>
+      Math.floor(Duration.toSeconds(bufferDuration) * bytesPerSecond);
+    const persistInterval = Duration.seconds(10);
+    // Copy size when moving the buffer into a resized segment
+    const resizeChunkSize = 1024 * 1024;
+    // Smaller bitrate differences only update the duration math, not the file
+    const resizeTolerance = 0.05;
 
-    const stateRef = yield* SynchronizedRef.make<BufferState>({
-      totalSize: 0,
-      readOffset: 0,
-      writeOffset: 0,
+    const loadState = Effect.gen(function* () {
+      const fresh = emptyState(sizeFor(configuredBytesPerSecond), configuredBytesPerSecond);
+      if (!persist) return fresh;
+
+      const raw = yield* store.loadState();
+      const fileSize = yield* store.current().size();
+      const loaded =
+        raw === null
+          ? "no saved state"
+          : yield* Effect.try({
+              try: () => validatePersistedState(JSON.parse(raw), fileSize),
+              catch: (e) => new Error(`Failed to read buffer state: ${e}`),
+            }).pipe(Effect.catchAll((e) => Effect.succeed(e.message)));
+
+      if (typeof loaded === "string") {
+        yield* Effect.log(`Starting with an empty buffer: ${loaded}`);
+        return fresh;
+      }
+
+      const now = Date.now();
+      const restored = discardExpired(loaded, Duration.toMillis(maxAge), now);
+      const minutes = Math.round(restored.totalSize / restored.bytesPerSecond / 60);
+      yield* Effect.log(`Restored persisted buffer (${minutes} min)`);
+      // Whatever was broadcast while the service was down is missing
+      if (restored.totalSize === 0) return restored;
+      const downtime = {
+        position: restored.writePosition,
+        gapMs: now - loaded.savedAt,
+        reason: "restart",
+      };
+      return { ...restored, discontinuities: [...restored.discontinuities, downtime] };
     });
 
-    const writeFully = (data: Uint8Array, position: number) =>
-      Effect.tryPromise({
-        try: async () => {
-          let offset = 0;
-          while (offset < data.length) {
-            const { bytesWritten } = await bufferFile.handle.write(
-              data,
-              offset,
-              data.length - offset,
-              position + offset,
-            );
-            if (bytesWritten === 0) {
-              throw new Error("Write returned 0 bytes");
-            }
-            offset += bytesWritten;
-          }
-        },
-        catch: (e) => new Error(`Buffer write failed: ${e}`),
-      }).pipe(Effect.orDie);
-
-    const readFully = (data: Uint8Array, position: number) =>
-      Effect.tryPromise({
-        try: async () => {
-          let offset = 0;
-          while (offset < data.length) {
-            const { bytesRead } = await bufferFile.handle.read(
-              data,
-              offset,
-              data.length - offset,
-              position + offset,
-            );
-            if (bytesRead === 0) {
-              throw new Error("Read returned 0 bytes");
-            }
-            offset += bytesRead;
-          }
-        },
-        catch: (e) => new Error(`Buffer read failed: ${e}`),
-      }).pipe(Effect.orDie);
+    const initialState = yield* loadState;
+    const stateRef = yield* SynchronizedRef.make(initialState);
+    // Changes are published so waiters wake as soon as the audio they need arrives
+    const changesRef = yield* SubscriptionRef.make(initialState);
+
+    // Reads under the lock hand back the state they were given, and aren't published
+    const modifyState = <A>(
+      f: (state: BufferState) => Effect.Effect<readonly [A, BufferState]>,
+    ): Effect.Effect<A> =>
+      SynchronizedRef.modifyEffect(stateRef, (state) =>
+        f(state).pipe(
+          Effect.tap(([, next]) =>
+            next === state ? Effect.void : SubscriptionRef.set(changesRef, next),
+          ),
+        ),
+      );
+
+    const updateState = (f: (state: BufferState) => Effect.Effect<BufferState>) =>
+      modifyState((state) => Effect.map(f(state), (next) => [undefined, next] as const));
+
+    const waitUntil = (ready: (state: BufferState) => boolean) =>
+      changesRef.changes.pipe(Stream.filter(ready), Stream.take(1), Stream.runDrain);
+
+    // The buffer only shrinks when read, so it's checked there; it starts out unfilled
+    const stabilityRef = yield* Ref.make({
+      lastUnhealthyAt: Date.now(),
+      lastDiscontinuityAt: null as number | null,
+    });
+    const healthyLevel = 0.8;
+    const trackHealth = (state: BufferState) =>
+      bufferedSize(state) < state.targetSize * healthyLevel
+        ? Ref.update(stabilityRef, (s) => ({ ...s, lastUnhealthyAt: Date.now() }))
+        : Effect.void;
+
+    const saveState = (state: BufferState) =>
+      Effect.gen(function* () {
+        const persisted: PersistedBufferState = {
+          version: 1,
+          savedAt: Date.now(),
+          targetSize: state.targetSize,
+          bytesPerSecond: state.bytesPerSecond,
+          totalSize: state.totalSize,
+          readOffset: state.readOffset,
+          writeOffset: state.writeOffset,
+          writePosition: state.writePosition,
+          titles: state.titles,
+          discontinuities: state.discontinuities,
+        };
+
+        yield* store.current().sync();
+        yield* store.saveState(JSON.stringify(persisted));
+      });
+
+    // Hold the lock while saving so the offsets always match the bytes on disk
+    const persistState = updateState((state) => saveState(state).pipe(Effect.as(state)));
 
-    const writeChunk = (chunk: Uint8Array, writeOffset: number) =>
+    if (persist) {
+      yield* Effect.addFinalizer(() => persistState);
+      yield* Effect.forkScoped(
+        Effect.sleep(persistInterval).pipe(Effect.zipRight(persistState), Effect.forever),
+      );
+    }
+
+    const writeFully = (data: Uint8Array, position: number, segment = store.current()) =>
+      segment.write(data, position);
+
+    const readFully = (data: Uint8Array, position: number, segment = store.current()) =>
+      segment.read(data, position);
+
+    const writeChunk = (chunk: Uint8Array, writeOffset: number, targetSize: number) =>
       Effect.gen(function* () {
         const endSpace = targetSize - writeOffset;
         if (chunk.length <= endSpace) {
@@ -120,116 +452,569 @@ export const BufferServiceLive = Layer.scoped(
         return second.length;
       });
 
+    const appendToRing = (state: BufferState, chunk: Uint8Array) =>
+      Effect.gen(function* () {
+        const { targetSize } = state;
+        if (chunk.length === 0 || targetSize <= 0) {
+          return state;
+        }
+
+        if (chunk.length >= targetSize) {
+          const tail = chunk.subarray(chunk.length - targetSize);
+          yield* writeFully(tail, 0);
+          return pruneMarks({
+            ...state,
+            totalSize: targetSize,
+            readOffset: 0,
+            writeOffset: 0,
+            writePosition: state.writePosition + chunk.length,
+            synced: false,
+          });
+        }
+
+        const newWriteOffset = yield* writeChunk(chunk, state.writeOffset, targetSize);
+        const overflow = Math.max(0, state.totalSize + chunk.length - targetSize);
+        const newReadOffset =
+          overflow > 0 ? (state.readOffset + overflow) % targetSize : state.readOffset;
+        const newTotal = Math.min(targetSize, state.totalSize + chunk.length);
+
+        return pruneMarks({
+          ...state,
+          totalSize: newTotal,
+          readOffset: newReadOffset,
+          writeOffset: newWriteOffset,
+          writePosition: state.writePosition + chunk.length,
+          synced: state.synced && overflow === 0,
+        });
+      });
+
     const append = (chunk: Uint8Array) =>
-      SynchronizedRef.modifyEffect(stateRef, (state) =>
+      updateState((state) =>
+        state.staging ? appendStaged(state, state.staging, chunk) : appendToRing(state, chunk),
+      );
+
+    const readRange = (state: BufferState, readOffset: number, length: number) =>
+      Effect.gen(function* () {
+        const output = new Uint8Array(length);
+        const endSpace = state.targetSize - readOffset;
+
+        if (length <= endSpace) {
+          yield* readFully(output, readOffset);
+        } else {
+          yield* readFully(output.subarray(0, endSpace), readOffset);
+          yield* readFully(output.subarray(endSpace), 0);
+        }
+
+        return output;
+      });
+
+    const advance = (state: BufferState, bytes: number, synced: boolean): BufferState =>
+      pruneMarks({
+        ...state,
+        totalSize: state.totalSize - bytes,
+        readOffset: (state.readOffset + bytes) % state.targetSize,
+        synced,
+      });
+
+    const consume = (bytes: number): Effect.Effect<Uint8Array | null> =>
+      modifyState((state) =>
         Effect.gen(function* () {
-          if (chunk.length === 0 || targetSize <= 0) {
-            return [undefined, state] as const;
+          if (bytes <= 0 || state.totalSize === 0) {
+            return [null, state] as const;
           }
 
-          if (chunk.length >= targetSize) {
-            const tail = chunk.subarray(chunk.length - targetSize);
-            yield* writeFully(tail, 0);
-            return [
-              undefined,
-              {
-                totalSize: targetSize,
-                readOffset: 0,
-                writeOffset: 0,
-              },
-            ] as const;
-          }
+          const toRead = Math.min(bytes, state.totalSize);
+          const output = yield* readRange(state, state.readOffset, toRead);
+
+          const next = advance(state, toRead, false);
+          yield* trackHealth(next);
+          return [output, next] as const;
+        }),
+      );
+
+    // Reads whole MP3 frames adding up to at least targetMs, resyncing to a frame
+    // boundary first if the read offset may have landed mid-frame.
+    const takeFrames = (
+      state: BufferState,
+      targetMs: number,
+    ): Effect.Effect<readonly [AudioChunk | null, BufferState]> =>
+      Effect.gen(function* () {
+        if (targetMs <= 0 || (state.totalSize === 0 && !state.staging)) {
+          yield* trackHealth(state);
+          return [null, state] as const;
+        }
 
-          const newWriteOffset = yield* writeChunk(chunk, state.writeOffset);
-          const overflow = Math.max(0, state.totalSize + chunk.length - targetSize);
-          const newReadOffset =
-            overflow > 0 ? (state.readOffset + overflow) % targetSize : state.readOffset;
-          const newTotal = Math.min(targetSize, state.totalSize + chunk.length);
+        // Frames never span a gap, so the window stops at the next one
+        const readPosition = state.writePosition - state.totalSize;
+        const gap = state.discontinuities.find((mark) => mark.position > readPosition) ?? null;
+        const untilGap = gap ? gap.position - readPosition : Infinity;
+        const windowSize = Math.min(state.totalSize, frameWindowSize(targetMs), untilGap);
+        const window = yield* readRange(state, state.readOffset, windowSize);
+        const span = spanFrames(window, state.synced, targetMs);
 
+        // Whatever is left before the gap isn't a whole frame: skip it so the next read
+        // starts after the gap
+        if (windowSize === untilGap && (span.end === untilGap || span.durationMs < targetMs)) {
+          const next = advance(state, untilGap, false);
+          yield* trackHealth(next);
           return [
-            undefined,
             {
-              totalSize: newTotal,
-              readOffset: newReadOffset,
-              writeOffset: newWriteOffset,
+              data: window.subarray(span.start, span.end),
+              durationMs: span.durationMs,
+              gapAfter: gap,
             },
+            next,
           ] as const;
-        }),
-      );
+        }
 
-    const consume = (bytes: number): Effect.Effect<Uint8Array | null> =>
-      SynchronizedRef.modifyEffect(stateRef, (state) =>
+        // The old ring is down to a partial frame, which the staging ring starts with
+        if (
+          state.staging &&
+          span.end === span.start &&
+          state.totalSize - span.end < MAX_FRAME_LENGTH
+        ) {
+          return yield* takeFrames(yield* cutOver(state, state.staging), targetMs);
+        }
+
+        const next = advance(state, span.end, span.synced);
+        yield* trackHealth(next);
+
+        return [
+          span.end > span.start
+            ? {
+                data: window.subarray(span.start, span.end),
+                durationMs: span.durationMs,
+                gapAfter: null,
+              }
+            : null,
+          next,
+        ] as const;
+      });
+
+    const consumeFrames = (targetMs: number): Effect.Effect<AudioChunk | null> =>
+      modifyState((state) => takeFrames(state, targetMs));
+
+    // Like consumeFrames, but from an independent cursor that leaves the buffer untouched.
+    // Cursors that point at overwritten audio are moved to the playback position.
+    const readFrames = (cursor: BufferCursor, targetMs: number): Effect.Effect<CursorRead> =>
+      modifyState((state) =>
         Effect.gen(function* () {
-          if (bytes <= 0 || state.totalSize === 0 || targetSize <= 0) {
-            return [null, state] as const;
-          }
+          const oldest = Math.max(state.validFrom, state.writePosition - state.targetSize);
+          const newest = liveWritePosition(state);
+          const moved = cursor.position < oldest || cursor.position > newest;
+          const position = moved ? state.writePosition - state.totalSize : cursor.position;
+          const synced = cursor.synced && !moved;
+          // During a rebuild, whatever the staging ring holds is read from there
+          const staging =
+            state.staging && position >= state.staging.startPosition ? state.staging : null;
+          const available = (staging ? newest : state.writePosition) - position;
 
-          const toRead = Math.min(bytes, state.totalSize);
-          const output = new Uint8Array(toRead);
-          const endSpace = targetSize - state.readOffset;
+          if (targetMs <= 0 || available === 0) {
+            return [
+              { chunk: null, cursor: { position, synced }, moved, title: null },
+              state,
+            ] as const;
+          }
 
-          if (toRead <= endSpace) {
-            yield* readFully(output, state.readOffset);
+          const length = Math.min(available, frameWindowSize(targetMs));
+          let window: Uint8Array;
+          if (staging) {
+            window = new Uint8Array(length);
+            yield* readFully(window, position - staging.startPosition, staging.segment);
           } else {
-            const first = output.subarray(0, endSpace);
-            const second = output.subarray(endSpace);
-            yield* readFully(first, state.readOffset);
-            yield* readFully(second, 0);
+            const offset = (state.writeOffset - available + state.targetSize) % state.targetSize;
+            window = yield* readRange(state, offset, length);
           }
-
-          const newReadOffset = (state.readOffset + toRead) % targetSize;
+          const span = spanFrames(window, synced, targetMs);
+          const chunk =
+            span.end > span.start
+              ? {
+                  data: window.subarray(span.start, span.end),
+                  durationMs: span.durationMs,
+                  gapAfter: null,
+                }
+              : null;
 
           return [
-            output,
             {
-              totalSize: state.totalSize - toRead,
-              readOffset: newReadOffset,
-              writeOffset: state.writeOffset,
+              chunk,
+              cursor: { position: position + span.end, synced: span.synced },
+              moved,
+              title: titleAt(state, position + span.start),
             },
+            state,
           ] as const;
         }),
       );
 
-    const getHealth = () =>
+    // Bitrate differences within resizeTolerance only update the duration math. The ring
+    // isn't resized during a rebuild; the staging ring is, once it's cut over to.
+    const needsResize = (state: BufferState) =>
+      !state.staging &&
+      Math.abs(sizeFor(state.bytesPerSecond) - state.targetSize) / state.targetSize >
+        resizeTolerance;
+
+    // Where the byte at absolute `position` sits in the ring
+    const ringOffset = (state: BufferState, position: number) =>
+      (state.writeOffset - (state.writePosition - position) + state.targetSize) % state.targetSize;
+
+    // Copies the newest audio into `segment`, sized for the bitrate, oldest bytes first.
+    // Only reading each chunk holds the lock, so appends and playback carry on while the
+    // segment fills; what arrived since is copied and the segment swapped in under it.
+    // False if a rebuild or another resize replaced the ring first.
+    const fillSegment = (initial: BufferState, segment: BufferSegment) =>
       Effect.gen(function* () {
-        const { totalSize: currentSize } = yield* SynchronizedRef.get(stateRef);
-        const percentage = targetSize > 0 ? Math.min(100, (currentSize / targetSize) * 100) : 0;
-        return {
-          currentSize,
-          targetSize,
-          percentage: Math.round(percentage * 100) / 100,
-          durationMinutes: Math.round(currentSize / (bitrateKBps * 1024) / 60),
-          isHealthy: percentage >= 80,
-        };
-      });
+        const ring = store.current();
+        const targetSize = sizeFor(initial.bytesPerSecond);
+        const chunkSize = Math.min(resizeChunkSize, targetSize);
+        // Absolute position of the byte at offset 0 of the segment
+        const base = initial.writePosition - Math.min(initial.totalSize, targetSize);
+        // Bytes before `from` are missing from the segment: the ring overwrote them first
+        let from = base;
+        let copied = base;
 
-    const clear = () =>
-      SynchronizedRef.set(stateRef, {
-        totalSize: 0,
-        readOffset: 0,
-        writeOffset: 0,
+        const writeAt = (data: Uint8Array, position: number) =>
+          Effect.gen(function* () {
+            const offset = (position - base) % targetSize;
+            const head = data.subarray(0, targetSize - offset);
+            yield* writeFully(head, offset, segment);
+            if (head.length < data.length) {
+              yield* writeFully(data.subarray(head.length), 0, segment);
+            }
+          });
+
+        const copyChunk = (state: BufferState) =>
+          Effect.gen(function* () {
+            if (state.staging || store.current() !== ring) return null;
+            const oldest = Math.max(state.validFrom, state.writePosition - state.targetSize);
+            if (copied < oldest) from = copied = oldest;
+            const length = Math.min(chunkSize, state.writePosition - copied);
+            const data = yield* readRange(state, ringOffset(state, copied), length);
+            return { position: copied, data };
+          });
+
+        // Until within a chunk of the write position, leaving little for the swap
+        while (true) {
+          // Holds the lock while reading, so the ring can't overwrite the chunk mid-read
+          const chunk = yield* modifyState((state) =>
+            copyChunk(state).pipe(Effect.map((chunk) => [chunk, state] as const)),
+          ).pipe(Effect.uninterruptible);
+          if (!chunk) return false;
+          yield* writeAt(chunk.data, chunk.position);
+          copied += chunk.data.length;
+          if (chunk.data.length < chunkSize) break;
+        }
+        yield* segment.sync();
+
+        const swap = (state: BufferState) =>
+          Effect.gen(function* () {
+            while (copied < state.writePosition) {
+              const chunk = yield* copyChunk(state);
+              if (!chunk) return [false, state] as const;
+              yield* writeAt(chunk.data, chunk.position);
+              copied += chunk.data.length;
+            }
+
+            yield* store.promote(segment);
+
+            const oldest = Math.max(from, state.writePosition - targetSize);
+            const readPosition = Math.max(state.writePosition - state.totalSize, oldest);
+            const resized = pruneMarks({
+              ...state,
+              targetSize,
+              totalSize: state.writePosition - readPosition,
+              readOffset: (readPosition - base) % targetSize,
+              writeOffset: (state.writePosition - base) % targetSize,
+              synced: state.synced && readPosition === state.writePosition - state.totalSize,
+              validFrom: oldest,
+            });
+            if (persist) yield* saveState(resized);
+            return [true, resized] as const;
+          });
+
+        return yield* modifyState(swap).pipe(Effect.uninterruptible);
       });
 
-    const size = () =>
-      SynchronizedRef.get(stateRef).pipe(Effect.map((state) => state.totalSize));
+    const resize = Effect.gen(function* () {
+      const state = yield* SynchronizedRef.get(stateRef);
+      if (!needsResize(state)) return;
+
+      const targetSize = sizeFor(state.bytesPerSecond);
+      const mb = Math.round((targetSize / 1024 / 1024) * 100) / 100;
+      const kbps = (state.bytesPerSecond * 8) / 1000;
+      yield* Effect.log(`Resizing buffer to ${mb} MB for ${kbps} kbps`);
+
+      const segment = yield* store.create("resize");
+      yield* fillSegment(state, segment).pipe(
+        Effect.onExit((exit) =>
+          Exit.isSuccess(exit) && exit.value ? Effect.void : store.discard(segment),
+        ),
+      );
+    });
 
-    const waitForSize = (size: number) =>
+    // Checked by a background fiber so the copy doesn't hold up whoever asked for it;
+    // requests made while it's resizing collapse into one more check
+    const resizeRequests = yield* Queue.sliding<void>(1);
+    const requestResize = Queue.offer(resizeRequests, undefined);
+    yield* Effect.forkScoped(
+      Queue.take(resizeRequests).pipe(Effect.zipRight(resize), Effect.forever),
+    );
+
+    const setBitrate = (kbps: number) =>
+      updateState((state) => {
+        const bytesPerSecond = Math.round((kbps * 1000) / 8);
+        return Effect.succeed(
+          bytesPerSecond <= 0 || bytesPerSecond === state.bytesPerSecond
+            ? state
+            : { ...state, bytesPerSecond },
+        );
+      }).pipe(Effect.zipRight(requestResize));
+
+    // A restored buffer keeps its own size; bring it in line if BUFFER_DURATION changed
+    yield* requestResize;
+
+    // Switches to the staging ring at the playback position. Whatever is left of the old
+    // ring is dropped: at most a partial frame once playback has drained it.
+    const cutOver = (state: BufferState, staging: StagingRing) =>
       Effect.gen(function* () {
-        if (size <= 0) return;
-        while (true) {
-          const { totalSize } = yield* SynchronizedRef.get(stateRef);
-          if (totalSize >= size) return;
-          yield* Effect.sleep(Duration.seconds(1));
+        const oldReadPosition = state.writePosition - state.totalSize;
+        const readPosition = Math.max(oldReadPosition, staging.startPosition);
+        const skip = readPosition - staging.startPosition;
+
+        yield* store.promote(staging.segment);
+
+        const dropped = staging.startPosition - oldReadPosition;
+        if (dropped > MAX_FRAME_LENGTH) {
+          const seconds = Math.round(dropped / state.bytesPerSecond);
+          yield* Effect.log(`Switched to the rebuilt buffer, skipping ${seconds}s of old audio`);
+        } else {
+          yield* Effect.log("Switched to the rebuilt buffer");
         }
+
+        const next = pruneMarks({
+          ...state,
+          targetSize: staging.targetSize,
+          totalSize: staging.totalSize - skip,
+          readOffset: skip % staging.targetSize,
+          writeOffset: staging.totalSize % staging.targetSize,
+          writePosition: staging.startPosition + staging.totalSize,
+          synced: skip === 0 ? staging.synced : state.synced,
+          validFrom: staging.startPosition,
+          staging: null,
+        });
+        if (persist) yield* saveState(next);
+        // The bitrate may have changed while the staging ring filled
+        yield* requestResize;
+        return next;
+      });
+
+    const appendStaged = (state: BufferState, staging: StagingRing, chunk: Uint8Array) =>
+      Effect.gen(function* () {
+        const head = chunk.subarray(0, staging.targetSize - staging.totalSize);
+        yield* writeFully(head, staging.totalSize, staging.segment);
+        const filled = { ...staging, totalSize: staging.totalSize + head.length };
+        if (filled.totalSize < filled.targetSize) {
+          return { ...state, staging: filled };
+        }
+
+        // Playback didn't drain the old ring in time, e.g. because it was paused
+        const switched = yield* cutOver(state, filled);
+        return yield* appendToRing(switched, chunk.subarray(head.length));
       });
 
-    const waitForTarget = () => waitForSize(targetSize);
+    // New audio goes to a fresh segment while playback drains the current one. The staging
+    // ring starts with the frame the stream is in the middle of, so playback crosses over
+    // on a frame boundary without a gap.
+    const startRebuild = () =>
+      modifyState((state) =>
+        Effect.gen(function* () {
+          if (state.staging) return [false, state] as const;
+
+          const segment = yield* store.create("next");
+
+          const tailLength = Math.min(state.totalSize, 4 * MAX_FRAME_LENGTH);
+          const tail = yield* readRange(
+            state,
+            (state.writeOffset - tailLength + state.targetSize) % state.targetSize,
+            tailLength,
+          );
+          const frameStart = trailingFrameStart(tail);
+          const carry = frameStart < 0 ? new Uint8Array(0) : tail.subarray(frameStart);
+          yield* writeFully(carry, 0, segment);
+
+          const staging: StagingRing = {
+            segment,
+            targetSize: state.targetSize,
+            totalSize: carry.length,
+            startPosition: state.writePosition - carry.length,
+            synced: frameStart >= 0,
+          };
+          return [true, { ...state, staging }] as const;
+        }),
+      );
+
+    const waitForCutover = () => waitUntil((state) => !state.staging);
+
+    // Moves what only the staging ring received back into the current ring, so no audio
+    // is lost, then discards the staging segment
+    const cancelRebuild = () =>
+      updateState((state) =>
+        Effect.gen(function* () {
+          const staging = state.staging;
+          if (!staging) return state;
 
-    const waitForMinutes = (minutes: number) => {
-      const size = Math.min(targetSize, Math.floor(minutes * 60 * bitrateKBps * 1024));
-      return waitForSize(size);
+          let next: BufferState = { ...state, staging: null };
+          let offset = state.writePosition - staging.startPosition;
+          while (offset < staging.totalSize) {
+            const data = new Uint8Array(Math.min(resizeChunkSize, staging.totalSize - offset));
+            yield* readFully(data, offset, staging.segment);
+            next = yield* appendToRing(next, data);
+            offset += data.length;
+          }
+
+          yield* store.discard(staging.segment);
+
+          return next;
+        }),
+      );
+
+    yield* Effect.addFinalizer(() => cancelRebuild());
+
+    const healthOf = (state: BufferState): BufferHealth => {
+      const currentSize = bufferedSize(state);
+      const { targetSize } = state;
+      const percentage = targetSize > 0 ? Math.min(100, (currentSize / targetSize) * 100) : 0;
+      const missingMs = state.discontinuities.reduce((total, mark) => total + mark.gapMs, 0);
+      return {
+        currentSize,
+        targetSize,
+        percentage: Math.round(percentage * 100) / 100,
+        durationMinutes: Math.round(currentSize / state.bytesPerSecond / 60),
+        isHealthy: percentage >= healthyLevel * 100,
+        discontinuities: state.discontinuities.length,
+        missingSeconds: Math.round(missingMs / 1000),
+      };
     };
 
-    return { append, consume, getHealth, clear, size, waitForTarget, waitForMinutes };
+    const getHealth = () => SynchronizedRef.get(stateRef).pipe(Effect.map(healthOf));
+
+    const healthChanges = () =>
+      changesRef.changes.pipe(
+        Stream.map(healthOf),
+        Stream.changesWith((a, b) => Math.floor(a.percentage) === Math.floor(b.percentage)),
+      );
+
+    const getStability = () =>
+      Effect.gen(function* () {
+        const state = yield* SynchronizedRef.get(stateRef);
+        const { lastUnhealthyAt, lastDiscontinuityAt } = yield* Ref.get(stabilityRef);
+        const healthy = bufferedSize(state) >= state.targetSize * healthyLevel;
+        return {
+          healthySince: healthy ? new Date(lastUnhealthyAt) : null,
+          lastDiscontinuity: lastDiscontinuityAt === null ? null : new Date(lastDiscontinuityAt),
+        };
+      });
+
+    const recordDiscontinuity = (reason: string, gapMs: number) =>
+      updateState((state) =>
+        Effect.succeed({
+          ...state,
+          discontinuities: [
+            ...state.discontinuities,
+            { position: liveWritePosition(state), gapMs, reason },
+          ],
+        }),
+      ).pipe(
+        Effect.zipRight(
+          Ref.update(stabilityRef, (s) => ({ ...s, lastDiscontinuityAt: Date.now() })),
+        ),
+        Effect.zipRight(Metric.increment(discontinuities)),
+        Effect.zipRight(
+          Effect.log(`Recorded a ${Math.round(gapMs / 1000)}s gap in the buffer (${reason})`),
+        ),
+      );
+
+    const clear = () =>
+      updateState((state) =>
+        Effect.succeed(
+          pruneMarks({ ...state, totalSize: 0, readOffset: state.writeOffset, synced: false }),
+        ),
+      );
+
+    const recordTitle = (title: string) =>
+      modifyState((state) =>
+        Effect.succeed<[boolean, BufferState]>(
+          state.titles.at(-1)?.title === title
+            ? [false, state]
+            : [
+                true,
+                {
+                  ...state,
+                  titles: [...state.titles, { position: liveWritePosition(state), title }],
+                },
+              ],
+        ),
+      ).pipe(
+        Effect.flatMap((changed) =>
+          changed ? Effect.log(`Stream title: ${title || "(none)"}`) : Effect.void,
+        ),
+      );
+
+    const getNowPlaying = () =>
+      SynchronizedRef.get(stateRef).pipe(
+        Effect.map((state): NowPlaying => {
+          return {
+            playing: titleAt(state, state.writePosition - state.totalSize),
+            live: state.titles.at(-1)?.title || null,
+          };
+        }),
+      );
+
+    const getReadPosition = () =>
+      SynchronizedRef.get(stateRef).pipe(
+        Effect.map((state) => state.writePosition - state.totalSize),
+      );
+
+    const size = () => SynchronizedRef.get(stateRef).pipe(Effect.map(bufferedSize));
+
+    // The size is re-evaluated on every change since a bitrate change can move the target
+    const waitForSize = (sizeOf: (state: BufferState) => number) =>
+      waitUntil((state) => bufferedSize(state) >= sizeOf(state));
+
+    const waitForTarget = () => waitForSize((state) => state.targetSize);
+
+    const waitForMinutes = (minutes: number) =>
+      waitForSize((state) =>
+        Math.min(state.targetSize, Math.floor(minutes * 60 * state.bytesPerSecond)),
+      );
+
+    const waitForAudio = () =>
+      SynchronizedRef.get(stateRef).pipe(
+        Effect.map(liveWritePosition),
+        Effect.flatMap((position) => waitUntil((state) => liveWritePosition(state) > position)),
+      );
+
+    return {
+      append,
+      consume,
+      consumeFrames,
+      readFrames,
+      getReadPosition,
+      recordTitle,
+      setBitrate,
+      getNowPlaying,
+      getHealth,
+      healthChanges,
+      getStability,
+      recordDiscontinuity,
+      clear,
+      size,
+      waitForTarget,
+      waitForMinutes,
+      waitForAudio,
+      startRebuild,
+      waitForCutover,
+      cancelRebuild,
+    };
   }),
 );
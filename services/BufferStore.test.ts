@@ -0,0 +1,417 @@
+import { describe, expect, test } from "bun:test";
+import { ConfigProvider, Context, Duration, Effect, Logger, LogLevel, Schedule } from "effect";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BufferService, BufferServiceLive } from "./BufferService";
+import { BufferStoreLive, BufferStoreName } from "./BufferStore";
+
+// BUFFER_DURATION of 10s at a BITRATE_KBPS of 1
+const targetSize = 10 * 1024;
+
+// Never repeats within 251 bytes, so audio read from the wrong offset doesn't match
+const audio = (from: number, length: number) =>
+  Uint8Array.from({ length }, (_, i) => (from + i) % 251);
+
+// MPEG 1 layer III frames at 128kbps and 44.1kHz, each filled with its own number
+const frameLength = 417;
+const frameMs = (1152 / 44100) * 1000;
+const frames = (from: number, count: number) => {
+  const data = new Uint8Array(count * frameLength);
+  for (let i = 0; i < count; i++) {
+    data.set([0xff, 0xfb, 0x90, 0x00], i * frameLength);
+    data.fill((from + i) % 251, i * frameLength + 4, (i + 1) * frameLength);
+  }
+  return data;
+};
+const frameNumbers = (data: Uint8Array) =>
+  Array.from({ length: data.length / frameLength }, (_, i) => data[i * frameLength + 4]!);
+const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+
+type Buffer = Context.Tag.Service<BufferService>;
+
+const runBuffer = <A>(
+  dir: string,
+  store: BufferStoreName,
+  use: (buffer: Buffer) => Effect.Effect<A>,
+  settings: Record<string, string> = {},
+) => {
+  const config = ConfigProvider.fromMap(
+    new Map([
+      ["BUFFER_STORE", store],
+      ["BUFFER_TEMP_DIR", dir],
+      ["DATA_DIR", dir],
+      ["BUFFER_DURATION", "10 seconds"],
+      ["BITRATE_KBPS", "1"],
+      ...Object.entries(settings),
+    ]),
+  );
+
+  return Effect.runPromise(
+    Effect.flatMap(BufferService, use).pipe(
+      Effect.provide(BufferServiceLive),
+      Effect.provide(BufferStoreLive),
+      Effect.withConfigProvider(config),
+      Logger.withMinimumLogLevel(LogLevel.None),
+    ),
+  );
+};
+
+const withDir = async (use: (dir: string) => Promise<void>) => {
+  const dir = await fs.mkdtemp(join(tmpdir(), "classicfm-test-"));
+  try {
+    await use(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+};
+
+const withBuffer = (
+  store: BufferStoreName,
+  use: (buffer: Buffer) => Effect.Effect<void>,
+  settings?: Record<string, string>,
+) => withDir((dir) => runBuffer(dir, store, use, settings));
+
+// Takes frames until the buffer (and any rebuild) runs dry
+const drainFrames = (buffer: Buffer) =>
+  Effect.gen(function* () {
+    const numbers: number[] = [];
+    let chunk = yield* buffer.consumeFrames(1000);
+    while (chunk) {
+      numbers.push(...frameNumbers(chunk.data));
+      chunk = yield* buffer.consumeFrames(1000);
+    }
+    return numbers;
+  });
+
+const waitForTargetSize = (buffer: Buffer, size: number) =>
+  buffer.getHealth().pipe(
+    Effect.repeat({
+      until: (health) => health.targetSize === size,
+      schedule: Schedule.spaced(Duration.millis(10)),
+    }),
+    Effect.timeout(Duration.seconds(2)),
+    Effect.orDie,
+  );
+
+const stores: BufferStoreName[] = ["memory", "temp", "persistent"];
+
+describe.each(stores)("%s store", (store) => {
+  test("wraps around at the target size", () =>
+    withBuffer(store, (buffer) =>
+      Effect.gen(function* () {
+        yield* buffer.append(audio(0, targetSize - 100));
+        expect(yield* buffer.consume(5000)).toEqual(audio(0, 5000));
+
+        // Ends past the end of the ring, so the write continues at the start
+        yield* buffer.append(audio(targetSize - 100, 3000));
+        expect(yield* buffer.size()).toBe(targetSize - 2100);
+        expect(yield* buffer.consume(targetSize)).toEqual(audio(5000, targetSize - 2100));
+        expect(yield* buffer.consume(1)).toBeNull();
+      }),
+    ));
+
+  test("drops the oldest audio when it overflows", () =>
+    withBuffer(store, (buffer) =>
+      Effect.gen(function* () {
+        yield* buffer.append(audio(0, targetSize));
+        yield* buffer.append(audio(targetSize, 1000));
+
+        expect(yield* buffer.size()).toBe(targetSize);
+        expect(yield* buffer.consume(500)).toEqual(audio(1000, 500));
+        expect(yield* buffer.consume(targetSize)).toEqual(audio(1500, targetSize - 500));
+      }),
+    ));
+
+  test("keeps the tail of a chunk at least the target size", () =>
+    withBuffer(store, (buffer) =>
+      Effect.gen(function* () {
+        yield* buffer.append(audio(0, 100));
+        yield* buffer.append(audio(100, targetSize + 500));
+
+        expect(yield* buffer.size()).toBe(targetSize);
+        expect(yield* buffer.consume(targetSize)).toEqual(audio(600, targetSize));
+
+        // The ring still wraps normally afterwards
+        yield* buffer.append(audio(targetSize + 600, 2000));
+        expect(yield* buffer.consume(targetSize)).toEqual(audio(targetSize + 600, 2000));
+      }),
+    ));
+
+  test("keeps the newest audio when a bitrate change resizes it", () =>
+    withBuffer(store, (buffer) =>
+      Effect.gen(function* () {
+        yield* buffer.append(audio(0, targetSize - 100));
+        yield* buffer.consume(2000);
+        yield* buffer.append(audio(targetSize - 100, 1000));
+
+        // 4kbps is 500 bytes a second, so 10s is 5000 bytes
+        yield* buffer.setBitrate(4);
+        yield* waitForTargetSize(buffer, 5000);
+
+        expect(yield* buffer.size()).toBe(5000);
+        expect(yield* buffer.consume(5000)).toEqual(audio(targetSize + 900 - 5000, 5000));
+
+        yield* buffer.append(audio(0, 6000));
+        expect(yield* buffer.consume(6000)).toEqual(audio(1000, 5000));
+      }),
+    ));
+
+  test("plays on into the rebuilt buffer without a gap", () =>
+    withBuffer(
+      store,
+      (buffer) =>
+        Effect.gen(function* () {
+          yield* buffer.append(frames(0, 10));
+          expect(yield* buffer.startRebuild()).toBe(true);
+          expect(yield* buffer.startRebuild()).toBe(false);
+          yield* buffer.append(frames(10, 10));
+
+          expect(yield* drainFrames(buffer)).toEqual(range(0, 20));
+          yield* buffer.waitForCutover();
+
+          // The rebuilt segment is the buffer now
+          yield* buffer.append(frames(20, 5));
+          expect(yield* drainFrames(buffer)).toEqual(range(20, 5));
+        }),
+      { BITRATE_KBPS: "16" },
+    ));
+
+  test("keeps what only the rebuild received when it's cancelled", () =>
+    withBuffer(
+      store,
+      (buffer) =>
+        Effect.gen(function* () {
+          yield* buffer.append(frames(0, 4));
+          yield* buffer.startRebuild();
+          yield* buffer.append(frames(4, 4));
+          yield* buffer.cancelRebuild();
+
+          expect(yield* drainFrames(buffer)).toEqual(range(0, 8));
+        }),
+      { BITRATE_KBPS: "16" },
+    ));
+});
+
+describe("persistent store", () => {
+  test("restores the buffer after a restart", () =>
+    withDir(async (dir) => {
+      await runBuffer(dir, "persistent", (buffer) =>
+        Effect.gen(function* () {
+          yield* buffer.append(audio(0, targetSize - 100));
+          yield* buffer.consume(1000);
+          yield* buffer.append(audio(targetSize - 100, 500));
+          yield* buffer.recordTitle("Holst - Jupiter");
+        }),
+      );
+
+      await runBuffer(dir, "persistent", (buffer) =>
+        Effect.gen(function* () {
+          expect(yield* buffer.size()).toBe(targetSize - 600);
+          expect((yield* buffer.getNowPlaying()).live).toBe("Holst - Jupiter");
+          // The time the service was down is marked as a gap
+          expect((yield* buffer.getHealth()).discontinuities).toBe(1);
+          expect(yield* buffer.consume(targetSize)).toEqual(audio(1000, targetSize - 600));
+        }),
+      );
+    }));
+
+  test("starts empty when the saved audio is older than BUFFER_MAX_AGE", () =>
+    withDir(async (dir) => {
+      await runBuffer(dir, "persistent", (buffer) => buffer.append(audio(0, 5000)));
+      await Bun.sleep(20);
+
+      await runBuffer(
+        dir,
+        "persistent",
+        (buffer) =>
+          Effect.gen(function* () {
+            expect(yield* buffer.size()).toBe(0);
+            expect((yield* buffer.getHealth()).discontinuities).toBe(0);
+            expect(yield* buffer.consume(1)).toBeNull();
+          }),
+        { BUFFER_MAX_AGE: "10 millis" },
+      );
+    }));
+
+  test("restores the resized buffer", () =>
+    withDir(async (dir) => {
+      await runBuffer(dir, "persistent", (buffer) =>
+        Effect.gen(function* () {
+          yield* buffer.append(audio(0, 8000));
+          yield* buffer.setBitrate(4);
+          yield* waitForTargetSize(buffer, 5000);
+        }),
+      );
+
+      await runBuffer(dir, "persistent", (buffer) =>
+        Effect.gen(function* () {
+          expect((yield* buffer.getHealth()).targetSize).toBe(5000);
+          expect(yield* buffer.consume(5000)).toEqual(audio(3000, 5000));
+        }),
+      );
+    }));
+
+  test("restores the rebuilt buffer once it has been switched to", () =>
+    withDir(async (dir) => {
+      const settings = { BITRATE_KBPS: "16" };
+      await runBuffer(
+        dir,
+        "persistent",
+        (buffer) =>
+          Effect.gen(function* () {
+            yield* buffer.append(frames(0, 10));
+            yield* buffer.startRebuild();
+            yield* buffer.append(frames(10, 10));
+            expect(yield* drainFrames(buffer)).toEqual(range(0, 20));
+            yield* buffer.append(frames(20, 10));
+            yield* buffer.consumeFrames(4.5 * frameMs);
+          }),
+        settings,
+      );
+
+      await runBuffer(
+        dir,
+        "persistent",
+        (buffer) =>
+          Effect.map(drainFrames(buffer), (numbers) => expect(numbers).toEqual(range(25, 5))),
+        settings,
+      );
+    }));
+});
+
+describe("temp store", () => {
+  test("removes its directory on shutdown", () =>
+    withDir(async (dir) => {
+      const during = await runBuffer(dir, "temp", (buffer) =>
+        Effect.zipRight(
+          buffer.append(audio(0, 1000)),
+          Effect.promise(() => fs.readdir(dir)),
+        ),
+      );
+
+      expect(during).toHaveLength(1);
+      expect(during[0]).toStartWith("classicfm-buffer-");
+      expect(await fs.readdir(dir)).toEqual([]);
+    }));
+});
+
+describe("frame reads", () => {
+  // 16KB/s fits the 128kbps test frames
+  const settings = { BITRATE_KBPS: "16" };
+
+  test("consumeFrames returns whole frames adding up to at least the target", () =>
+    withBuffer(
+      "memory",
+      (buffer) =>
+        Effect.gen(function* () {
+          yield* buffer.append(frames(0, 10));
+
+          const first = yield* buffer.consumeFrames(100);
+          expect(frameNumbers(first!.data)).toEqual(range(0, 4));
+          expect(first!.durationMs).toBeCloseTo(4 * frameMs);
+          expect(first!.gapAfter).toBeNull();
+
+          const rest = yield* buffer.consumeFrames(1000);
+          expect(frameNumbers(rest!.data)).toEqual(range(4, 6));
+          expect(yield* buffer.consumeFrames(100)).toBeNull();
+        }),
+      settings,
+    ));
+
+  test("consumeFrames skips to the first frame boundary", () =>
+    withBuffer(
+      "memory",
+      (buffer) =>
+        Effect.gen(function* () {
+          // The tail of a frame the stream was cut into, with a fake sync word in it
+          yield* buffer.append(Uint8Array.from([1, 0xff, 0xfb, 0x90, 0x00, 2, 3]));
+          yield* buffer.append(frames(0, 5));
+
+          const chunk = yield* buffer.consumeFrames(1000);
+          expect(frameNumbers(chunk!.data)).toEqual(range(0, 5));
+        }),
+      settings,
+    ));
+
+  test("consumeFrames stops at a gap and reports it", () =>
+    withBuffer(
+      "memory",
+      (buffer) =>
+        Effect.gen(function* () {
+          yield* buffer.append(frames(0, 3));
+          yield* buffer.recordDiscontinuity("reconnect", 5000);
+          yield* buffer.append(frames(3, 3));
+
+          const before = yield* buffer.consumeFrames(1000);
+          expect(frameNumbers(before!.data)).toEqual(range(0, 3));
+          expect(before!.gapAfter).toMatchObject({ reason: "reconnect", gapMs: 5000 });
+
+          const after = yield* buffer.consumeFrames(1000);
+          expect(frameNumbers(after!.data)).toEqual(range(3, 3));
+          expect(after!.gapAfter).toBeNull();
+        }),
+      settings,
+    ));
+
+  test("readFrames reads from its own cursor and leaves the buffer as it was", () =>
+    withBuffer(
+      "memory",
+      (buffer) =>
+        Effect.gen(function* () {
+          yield* buffer.recordTitle("Elgar - Nimrod");
+          yield* buffer.append(frames(0, 6));
+
+          const start = { position: yield* buffer.getReadPosition(), synced: false };
+          const first = yield* buffer.readFrames(start, 50);
+          expect(frameNumbers(first.chunk!.data)).toEqual(range(0, 2));
+          expect(first.cursor).toEqual({ position: 2 * frameLength, synced: true });
+          expect(first.moved).toBe(false);
+          expect(first.title).toBe("Elgar - Nimrod");
+
+          const second = yield* buffer.readFrames(first.cursor, 50);
+          expect(frameNumbers(second.chunk!.data)).toEqual(range(2, 2));
+
+          const end = yield* buffer.readFrames({ position: 6 * frameLength, synced: true }, 50);
+          expect(end.chunk).toBeNull();
+
+          expect(yield* buffer.size()).toBe(6 * frameLength);
+          expect(frameNumbers((yield* buffer.consumeFrames(1000))!.data)).toEqual(range(0, 6));
+        }),
+      settings,
+    ));
+
+  test("readFrames moves a cursor that fell out of the buffer to the playback position", () =>
+    withBuffer(
+      "memory",
+      (buffer) =>
+        Effect.gen(function* () {
+          const start = { position: yield* buffer.getReadPosition(), synced: true };
+          // 400 frames overflow the 163840 byte ring, which then starts mid-frame 7
+          yield* buffer.append(frames(0, 400));
+
+          const read = yield* buffer.readFrames(start, 50);
+          expect(read.moved).toBe(true);
+          expect(frameNumbers(read.chunk!.data)).toEqual(range(8, 2));
+          expect(read.cursor).toEqual({ position: 10 * frameLength, synced: true });
+        }),
+      settings,
+    ));
+
+  test("readFrames reads what a rebuild has received", () =>
+    withBuffer(
+      "memory",
+      (buffer) =>
+        Effect.gen(function* () {
+          yield* buffer.append(frames(0, 2));
+          yield* buffer.startRebuild();
+          yield* buffer.append(frames(2, 2));
+
+          const first = yield* buffer.readFrames({ position: 0, synced: true }, 1000);
+          expect(frameNumbers(first.chunk!.data)).toEqual(range(0, 2));
+          const second = yield* buffer.readFrames(first.cursor, 1000);
+          expect(frameNumbers(second.chunk!.data)).toEqual(range(2, 2));
+        }),
+      settings,
+    ));
+});
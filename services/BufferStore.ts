@@ -0,0 +1,228 @@
+import { Context, Effect, Layer } from "effect";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { AppConfig } from "../config";
+
+export type BufferStoreName = "memory" | "temp" | "persistent";
+
+// Random-access bytes holding a ring buffer
+export interface BufferSegment {
+  readonly read: (data: Uint8Array, position: number) => Effect.Effect<void>;
+  readonly write: (data: Uint8Array, position: number) => Effect.Effect<void>;
+  readonly size: () => Effect.Effect<number>;
+  // Makes written bytes durable before the offsets pointing at them are saved
+  readonly sync: () => Effect.Effect<void>;
+}
+
+export class BufferStore extends Context.Tag("BufferStore")<
+  BufferStore,
+  {
+    readonly name: BufferStoreName;
+    // Whether the audio and its offsets survive a restart
+    readonly durable: boolean;
+    // The segment holding the buffer; replaced by `promote`
+    readonly current: () => BufferSegment;
+    // A new, empty segment alongside the current one, used while resizing or rebuilding
+    readonly create: (purpose: string) => Effect.Effect<BufferSegment>;
+    readonly promote: (segment: BufferSegment) => Effect.Effect<void>;
+    readonly discard: (segment: BufferSegment) => Effect.Effect<void>;
+    // The saved ring offsets of a durable store, null if there are none
+    readonly loadState: () => Effect.Effect<string | null>;
+    readonly saveState: (state: string) => Effect.Effect<void>;
+  }
+>() {}
+
+interface FileSegment extends BufferSegment {
+  readonly path: string;
+  readonly handle: fs.FileHandle;
+}
+
+const openFileSegment = (path: string, mode: "r+" | "w+") =>
+  Effect.tryPromise({
+    try: async (): Promise<FileSegment> => {
+      const handle = await fs.open(path, mode).catch((e: unknown) => {
+        if (mode === "r+") return fs.open(path, "w+");
+        throw e;
+      });
+
+      return {
+        path,
+        handle,
+        read: (data, position) =>
+          Effect.tryPromise({
+            try: async () => {
+              let offset = 0;
+              while (offset < data.length) {
+                const { bytesRead } = await handle.read(
+                  data,
+                  offset,
+                  data.length - offset,
+                  position + offset,
+                );
+                if (bytesRead === 0) {
+                  throw new Error("Read returned 0 bytes");
+                }
+                offset += bytesRead;
+              }
+            },
+            catch: (e) => new Error(`Buffer read failed: ${e}`),
+          }).pipe(Effect.orDie),
+        write: (data, position) =>
+          Effect.tryPromise({
+            try: async () => {
+              let offset = 0;
+              while (offset < data.length) {
+                const { bytesWritten } = await handle.write(
+                  data,
+                  offset,
+                  data.length - offset,
+                  position + offset,
+                );
+                if (bytesWritten === 0) {
+                  throw new Error("Write returned 0 bytes");
+                }
+                offset += bytesWritten;
+              }
+            },
+            catch: (e) => new Error(`Buffer write failed: ${e}`),
+          }).pipe(Effect.orDie),
+        size: () =>
+          Effect.tryPromise(() => handle.stat()).pipe(
+            Effect.map((stat) => stat.size),
+            Effect.orDie,
+          ),
+        sync: () => Effect.tryPromise(() => handle.datasync()).pipe(Effect.orDie),
+      };
+    },
+    catch: (e) => new Error(`Failed to open buffer file ${path}: ${e}`),
+  }).pipe(Effect.orDie);
+
+const closeFileSegment = (segment: FileSegment, remove: boolean) =>
+  Effect.tryPromise(async () => {
+    await segment.handle.close();
+    if (remove) await fs.rm(segment.path, { force: true });
+  }).pipe(Effect.catchAll(() => Effect.void));
+
+// buffer.dat in `dir`; state.json next to it when `durable`
+const fileStore = (name: BufferStoreName, dir: string, durable: boolean) =>
+  Effect.gen(function* () {
+    const path = join(dir, "buffer.dat");
+    const statePath = join(dir, "state.json");
+    let current = yield* openFileSegment(path, durable ? "r+" : "w+");
+    yield* Effect.addFinalizer(() => closeFileSegment(current, false));
+
+    const promote = (segment: BufferSegment) =>
+      Effect.tryPromise({
+        try: async () => {
+          const next = segment as FileSegment;
+          await current.handle.close();
+          await fs.rename(next.path, path);
+          current = { ...next, path };
+        },
+        catch: (e) => new Error(`Failed to replace buffer file: ${e}`),
+      }).pipe(Effect.orDie);
+
+    return BufferStore.of({
+      name,
+      durable,
+      current: () => current,
+      create: (purpose) => openFileSegment(`${path}.${purpose}`, "w+"),
+      promote,
+      discard: (segment) => closeFileSegment(segment as FileSegment, true),
+      loadState: () =>
+        durable
+          ? Effect.promise(() => fs.readFile(statePath, "utf8").catch(() => null))
+          : Effect.succeed(null),
+      saveState: (state) =>
+        Effect.tryPromise({
+          try: async () => {
+            const tempPath = `${statePath}.tmp`;
+            await fs.writeFile(tempPath, state);
+            await fs.rename(tempPath, statePath);
+          },
+          catch: (e) => new Error(`Failed to persist buffer state: ${e}`),
+        }).pipe(Effect.catchAll((e) => Effect.logWarning(e.message))),
+    });
+  });
+
+const memoryGrowth = 1024 * 1024;
+
+// Grows as it's written, like a sparse file
+const memorySegment = (): BufferSegment => {
+  let bytes = new Uint8Array(0);
+  let length = 0;
+
+  return {
+    read: (data, position) =>
+      position + data.length > length
+        ? Effect.dieMessage(`Buffer read failed: ${position + data.length} is past the end`)
+        : Effect.sync(() => data.set(bytes.subarray(position, position + data.length))),
+    write: (data, position) =>
+      Effect.sync(() => {
+        const end = position + data.length;
+        if (end > bytes.length) {
+          // Grow in whole MiB so a full ring doesn't hold much spare memory
+          const grown = new Uint8Array(Math.ceil(end / memoryGrowth) * memoryGrowth);
+          grown.set(bytes.subarray(0, length));
+          bytes = grown;
+        }
+        bytes.set(data, position);
+        length = Math.max(length, end);
+      }),
+    size: () => Effect.sync(() => length),
+    sync: () => Effect.void,
+  };
+};
+
+const memoryStore = Effect.sync(() => {
+  let current = memorySegment();
+
+  return BufferStore.of({
+    name: "memory",
+    durable: false,
+    current: () => current,
+    create: () => Effect.sync(memorySegment),
+    promote: (segment) =>
+      Effect.sync(() => {
+        current = segment;
+      }),
+    discard: () => Effect.void,
+    loadState: () => Effect.succeed(null),
+    saveState: () => Effect.void,
+  });
+});
+
+export const BufferStoreLive = Layer.scoped(
+  BufferStore,
+  Effect.gen(function* () {
+    const name = yield* AppConfig.BufferStore;
+    const tempDir = yield* AppConfig.BufferTempDir;
+    const dataDir = yield* AppConfig.DataDir;
+
+    yield* Effect.log(`Buffer store: ${name}`);
+
+    switch (name) {
+      case "memory":
+        return yield* memoryStore;
+      case "persistent": {
+        const dir = join(dataDir, "buffer");
+        yield* Effect.tryPromise(() => fs.mkdir(dir, { recursive: true })).pipe(Effect.orDie);
+        return yield* fileStore(name, dir, true);
+      }
+      case "temp": {
+        const dir = yield* Effect.acquireRelease(
+          Effect.tryPromise({
+            try: async () => {
+              await fs.mkdir(tempDir, { recursive: true });
+              return await fs.mkdtemp(join(tempDir, "classicfm-buffer-"));
+            },
+            catch: (e) => new Error(`Failed to create buffer file: ${e}`),
+          }).pipe(Effect.orDie),
+          (dir) =>
+            Effect.promise(() => fs.rm(dir, { recursive: true, force: true }).catch(() => {})),
+        );
+        return yield* fileStore(name, dir, false);
+      }
+    }
+  }),
+);
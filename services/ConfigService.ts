@@ -0,0 +1,210 @@
+import {
+  Config,
+  ConfigProvider,
+  Context,
+  DateTime,
+  Duration,
+  Effect,
+  Layer,
+  Option,
+  Redacted,
+  Stream,
+  SubscriptionRef,
+} from "effect";
+import { promises as fs } from "fs";
+import { extname } from "path";
+import { AppConfig } from "../config";
+
+const appConfig = Config.all(AppConfig);
+
+export type AppSettings = Config.Config.Success<typeof appConfig>;
+
+type SettingName = keyof AppSettings;
+
+// Read again on reload; everything else keeps its startup value until a restart
+export const reloadableSettings = [
+  "ListeningSchedule",
+  "RebuildHour",
+  "RebuildCron",
+  "RebuildPolicy",
+  "RebuildSkipWindow",
+  "Volume",
+  "BufferLowPercent",
+  "NotifyRateLimit",
+  "NotifyDedupeWindow",
+] as const satisfies readonly SettingName[];
+
+// Plain strings elsewhere, since they're used and logged as such, but they can hold
+// credentials in a URL or on a command line
+const sensitiveSettings = [
+  "StreamUrls",
+  "NotifyWebhookUrl",
+  "NotifyPushUrl",
+  "NotifyCommand",
+] as const satisfies readonly SettingName[];
+
+export type ReloadableSettings = Pick<AppSettings, (typeof reloadableSettings)[number]>;
+
+export interface ReloadResult {
+  // Changed and in effect
+  applied: SettingName[];
+  // Changed, but only read at startup
+  needsRestart: SettingName[];
+}
+
+export interface ConfigDescription {
+  // null when only the environment is used
+  file: string | null;
+  loadedAt: Date;
+  reloadable: readonly SettingName[];
+  // Secrets are shown as <redacted>
+  settings: Record<string, unknown>;
+}
+
+export class ConfigService extends Context.Tag("ConfigService")<
+  ConfigService,
+  {
+    readonly settings: () => Effect.Effect<ReloadableSettings>;
+    // The current settings, then the new ones after every reload that changes them
+    readonly changes: () => Stream.Stream<ReloadableSettings>;
+    // Re-reads CONFIG_FILE and the environment; invalid settings leave the current ones in place
+    readonly reload: () => Effect.Effect<ReloadResult, Error>;
+    readonly describe: () => Effect.Effect<ConfigDescription>;
+  }
+>() {}
+
+const isReloadable = (name: SettingName) =>
+  (reloadableSettings as readonly string[]).includes(name);
+
+// Spelled out so the compiler flags a field missing from or added to reloadableSettings
+const pickReloadable = (settings: AppSettings): ReloadableSettings => ({
+  ListeningSchedule: settings.ListeningSchedule,
+  RebuildHour: settings.RebuildHour,
+  RebuildCron: settings.RebuildCron,
+  RebuildPolicy: settings.RebuildPolicy,
+  RebuildSkipWindow: settings.RebuildSkipWindow,
+  Volume: settings.Volume,
+  BufferLowPercent: settings.BufferLowPercent,
+  NotifyRateLimit: settings.NotifyRateLimit,
+  NotifyDedupeWindow: settings.NotifyDedupeWindow,
+});
+
+// Plain JSON for /config, and for telling whether a setting changed
+const render = (value: unknown, redact: boolean): unknown => {
+  if (Redacted.isRedacted(value)) return redact ? "<redacted>" : Redacted.value(value);
+  if (Option.isOption(value)) {
+    return Option.match(value, { onNone: () => null, onSome: (v) => render(v, redact) });
+  }
+  if (Duration.isDuration(value)) return Duration.format(value);
+  if (DateTime.isTimeZone(value)) return DateTime.zoneToString(value);
+  if (value instanceof Set) return [...value];
+  if (Array.isArray(value)) return value.map((item) => render(item, redact));
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, render(v, redact)]));
+  }
+  return value;
+};
+
+// Unset settings stay null, so it's still clear which ones are configured
+const redactSensitive = (settings: AppSettings) => {
+  const rendered = render(settings, true) as Record<string, unknown>;
+  for (const name of sensitiveSettings) {
+    const value = rendered[name];
+    if (Array.isArray(value)) rendered[name] = value.map(() => "<redacted>");
+    else if (value !== null) rendered[name] = "<redacted>";
+  }
+  return rendered;
+};
+
+const fingerprint = (value: unknown) => JSON.stringify(render(value, false));
+
+const readConfigFile = (path: string) =>
+  Effect.tryPromise({
+    try: async () => {
+      const text = await fs.readFile(path, "utf8");
+      const parsed: unknown = extname(path) === ".toml" ? Bun.TOML.parse(text) : JSON.parse(text);
+      if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+        throw new Error("expected an object of settings");
+      }
+      return ConfigProvider.fromJson(parsed);
+    },
+    catch: (e) =>
+      new Error(`Can't read config file ${path}: ${e instanceof Error ? e.message : e}`),
+  });
+
+// The environment first, then the file
+const providerFor = (env: ConfigProvider.ConfigProvider, path: Option.Option<string>) =>
+  Option.match(path, {
+    onNone: () => Effect.succeed(env),
+    onSome: (file) =>
+      readConfigFile(file).pipe(
+        Effect.map((fromFile) => ConfigProvider.orElse(env, () => fromFile)),
+      ),
+  });
+
+const load = (provider: ConfigProvider.ConfigProvider) =>
+  Effect.withConfigProvider(appConfig, provider).pipe(
+    Effect.mapError((e) => new Error(`Invalid config ${e}`)),
+  );
+
+// Also makes the file's settings the config every other layer reads
+export const ConfigServiceLive = Layer.unwrapEffect(
+  Effect.gen(function* () {
+    const env = yield* Effect.configProviderWith(Effect.succeed);
+    const path = yield* AppConfig.ConfigFile;
+    const provider = yield* providerFor(env, path);
+    let current = yield* load(provider);
+    let loadedAt = new Date();
+
+    const settingsRef = yield* SubscriptionRef.make(pickReloadable(current));
+    const lock = yield* Effect.makeSemaphore(1);
+
+    const reload = () =>
+      Effect.gen(function* () {
+        const next = yield* providerFor(env, path).pipe(Effect.flatMap(load));
+        const changed = (Object.keys(next) as SettingName[]).filter(
+          (name) => fingerprint(next[name]) !== fingerprint(current[name]),
+        );
+        const applied = changed.filter(isReloadable);
+        const needsRestart = changed.filter((name) => !isReloadable(name));
+
+        // Unchanged settings keep their values, so consumers can compare by reference
+        current = { ...current, ...Object.fromEntries(applied.map((name) => [name, next[name]])) };
+        loadedAt = new Date();
+        if (applied.length > 0) {
+          yield* SubscriptionRef.set(settingsRef, pickReloadable(current));
+        }
+
+        yield* Effect.log(
+          applied.length > 0 ? `Config reloaded: ${applied.join(", ")}` : "Config reloaded",
+        );
+        if (needsRestart.length > 0) {
+          yield* Effect.logWarning(`Restart to apply: ${needsRestart.join(", ")}`);
+        }
+        return { applied, needsRestart };
+      }).pipe(
+        Effect.tapError((e) => Effect.logError(`Config not reloaded: ${e.message}`)),
+        lock.withPermits(1),
+      );
+
+    const describe = () =>
+      Effect.sync(() => ({
+        file: Option.getOrNull(path),
+        loadedAt,
+        reloadable: reloadableSettings,
+        settings: redactSensitive(current),
+      }));
+
+    if (Option.isSome(path)) yield* Effect.log(`Config file: ${path.value}`);
+
+    return Layer.merge(
+      Layer.setConfigProvider(provider),
+      Layer.succeed(ConfigService, {
+        settings: () => SubscriptionRef.get(settingsRef),
+        changes: () => settingsRef.changes,
+        reload,
+        describe,
+      }),
+    );
+  }),
+);
@@ -0,0 +1,89 @@
+import { Context, Effect, Layer, PubSub, Ref, Stream } from "effect";
+import type { PlaybackState } from "./PlaybackService";
+
+export type PlayerEventData =
+  | { type: "playback"; from: PlaybackState; to: PlaybackState }
+  | { type: "buffer"; level: "healthy" | "low"; percentage: number }
+  | { type: "stream"; status: "connected"; url: string }
+  | {
+      type: "stream";
+      status: "disconnected";
+      url: string;
+      error: string | null;
+      timedOut: boolean;
+    }
+  | { type: "stream"; status: "failed"; url: string; error: string }
+  | { type: "stream"; status: "silent"; url: string; silentSeconds: number }
+  // A mirror connection ended on purpose because MIRROR_PRIMARY_COOLDOWN ran out
+  | { type: "stream"; status: "switching"; url: string; to: string }
+  | { type: "player"; status: "exited"; code: number | null; reason: string }
+  | { type: "player"; status: "restarting" }
+  | { type: "rebuild"; status: "started"; reason: string }
+  | {
+      type: "rebuild";
+      status: "finished";
+      reason: string;
+      outcome: "complete" | "skipped" | "cancelled";
+    };
+
+export type PlayerEvent = PlayerEventData & { id: number; at: Date };
+
+interface EventHistory {
+  nextId: number;
+  events: PlayerEvent[];
+}
+
+export class EventService extends Context.Tag("EventService")<
+  EventService,
+  {
+    readonly publish: (event: PlayerEventData) => Effect.Effect<void>;
+    // Live events, preceded by any still-remembered ones after `lastEventId`
+    readonly subscribe: (lastEventId: number | null) => Stream.Stream<PlayerEvent>;
+  }
+>() {}
+
+export const EventServiceLive = Layer.effect(
+  EventService,
+  Effect.gen(function* () {
+    // Enough to cover a client reconnecting after a short network drop
+    const historySize = 500;
+
+    const pubsub = yield* PubSub.sliding<PlayerEvent>(historySize);
+    const historyRef = yield* Ref.make<EventHistory>({
+      nextId: 1,
+      events: [],
+    });
+
+    const publish = (data: PlayerEventData) =>
+      Ref.modify(historyRef, (history): [PlayerEvent, EventHistory] => {
+        const event: PlayerEvent = { ...data, id: history.nextId, at: new Date() };
+        return [
+          event,
+          { nextId: history.nextId + 1, events: [...history.events, event].slice(-historySize) },
+        ];
+      }).pipe(
+        Effect.flatMap((event) => PubSub.publish(pubsub, event)),
+        Effect.asVoid,
+      );
+
+    const subscribe = (lastEventId: number | null) =>
+      Stream.unwrapScoped(
+        Effect.gen(function* () {
+          // Subscribe before reading the history so nothing falls between the two
+          const live = yield* PubSub.subscribe(pubsub);
+          const { nextId, events } = yield* Ref.get(historyRef);
+
+          // IDs restart with the process, so an ID from the future is from a previous run
+          const after = lastEventId !== null && lastEventId < nextId ? lastEventId : null;
+          const missed = after === null ? [] : events.filter((e) => e.id > after);
+          const seen = missed.at(-1)?.id ?? after ?? 0;
+          return Stream.concat(
+            Stream.fromIterable(missed),
+            Stream.fromQueue(live).pipe(Stream.filter((event) => event.id > seen)),
+          );
+        }),
+      );
+
+    return { publish, subscribe };
+  }),
+);
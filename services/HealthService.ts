@@ -1,9 +1,37 @@
-import { Cause, Context, Duration, Effect, Fiber, Layer, Ref } from "effect";
+import {
+  Cause,
+  Context,
+  Duration,
+  Effect,
+  Fiber,
+  Layer,
+  Metric,
+  Ref,
+  Runtime,
+  Stream,
+} from "effect";
 import { BufferHealth, BufferService } from "./BufferService";
+import { ConfigService } from "./ConfigService";
+import { EventService, PlayerEvent } from "./EventService";
+import { HistoryService, HistoryType, historyTypes } from "./HistoryService";
 import { PlaybackService } from "./PlaybackService";
 import { SchedulerService } from "./SchedulerService";
+import { SilenceDetector } from "./SilenceDetector";
+import { StreamService } from "./StreamService";
+import { ListenService } from "./ListenService";
+import { VolumeService } from "./VolumeService";
+import { Telemetry } from "./Telemetry";
 import { AppConfig } from "../config";
-import { addBreadcrumb, captureException } from "../utils/sentry";
+import {
+  bufferBytes,
+  bufferPercentage,
+  bufferTargetBytes,
+  playbackState,
+  renderPrometheus,
+} from "../utils/metrics";
+import { errorResponse, jsonResponse } from "../utils/http";
+import { apiDescription } from "../utils/openapi";
+import { panelHtml } from "../utils/panel";
 
 export class HealthService extends Context.Tag("HealthService")<
   HealthService,
@@ -13,14 +41,27 @@ export class HealthService extends Context.Tag("HealthService")<
   }
 >() {}
 
+type Handler = (req: Request, url: URL) => Effect.Effect<Response>;
+
 export const HealthServiceLive = Layer.effect(
   HealthService,
   Effect.gen(function* () {
     const buffer = yield* BufferService;
     const playback = yield* PlaybackService;
     const scheduler = yield* SchedulerService;
+    const stream = yield* StreamService;
+    const listen = yield* ListenService;
+    const volume = yield* VolumeService;
+    const events = yield* EventService;
+    const telemetry = yield* Telemetry;
+    const history = yield* HistoryService;
+    const config = yield* ConfigService;
+    const silence = yield* SilenceDetector;
 
     const port = yield* AppConfig.HealthPort;
+    const bitrateKBps = yield* AppConfig.BitrateKBps;
+    // Requests run with the app's loggers and config rather than Effect's defaults
+    const runPromise = Runtime.runPromise(yield* Effect.runtime<never>());
 
     const thresholdRef = yield* Ref.make({ armed: false });
     const serverRef = yield* Ref.make<ReturnType<typeof Bun.serve> | null>(null);
@@ -29,13 +70,13 @@ export const HealthServiceLive = Layer.effect(
     const updateThresholds = Effect.fn("health.updateThresholds")(function* (
       health: BufferHealth,
       state: string,
-      nextRebuild: Date,
     ) {
       if (state === "paused") {
         yield* Ref.set(thresholdRef, { armed: false });
         return;
       }
 
+      const { BufferLowPercent: lowPercent } = yield* config.settings();
       const action = yield* Ref.modify(thresholdRef, (threshold) => {
         if (health.percentage >= 80) {
           if (!threshold.armed) {
@@ -44,7 +85,7 @@ export const HealthServiceLive = Layer.effect(
           return ["noop" as const, threshold];
         }
 
-        if (threshold.armed && health.percentage < 20) {
+        if (threshold.armed && health.percentage < lowPercent) {
           return ["alert" as const, { armed: false }];
         }
 
@@ -52,7 +93,8 @@ export const HealthServiceLive = Layer.effect(
       });
 
       if (action === "armed") {
-        yield* addBreadcrumb({
+        yield* events.publish({ type: "buffer", level: "healthy", percentage: health.percentage });
+        yield* telemetry.addBreadcrumb({
           category: "buffer",
           message: "Buffer healthy threshold reached",
           level: "info",
@@ -61,153 +103,321 @@ export const HealthServiceLive = Layer.effect(
       }
 
       if (action === "alert") {
-        yield* addBreadcrumb({
+        yield* events.publish({ type: "buffer", level: "low", percentage: health.percentage });
+        yield* telemetry.addBreadcrumb({
           category: "buffer",
           message: "Buffer health dropped below threshold",
           level: "error",
           data: { percentage: health.percentage },
         });
-        yield* captureException(new Error("Buffer health dropped below 20% after being healthy"), {
-          tags: { component: "health", event: "buffer_threshold" },
-          extra: {
-            percentage: health.percentage,
-            currentSize: health.currentSize,
-            targetSize: health.targetSize,
-            durationMinutes: health.durationMinutes,
-            playbackState: state,
-            nextRebuild: nextRebuild.toISOString(),
+        const nextRebuild = yield* scheduler.getNextRebuildTime();
+        yield* telemetry.captureException(
+          new Error(`Buffer health dropped below ${lowPercent}% after being healthy`),
+          {
+            tags: { component: "health", event: "buffer_threshold" },
+            extra: {
+              percentage: health.percentage,
+              currentSize: health.currentSize,
+              targetSize: health.targetSize,
+              durationMinutes: health.durationMinutes,
+              playbackState: state,
+              nextRebuild: nextRebuild.toISOString(),
+            },
           },
-        });
+        );
       }
     });
 
     const getHealth = Effect.gen(function* () {
       const health = yield* buffer.getHealth();
+      const nowPlaying = yield* buffer.getNowPlaying();
       const state = yield* playback.getState();
       const nextRebuild = yield* scheduler.getNextRebuildTime();
+      const streamStatus = yield* stream.getStatus();
+      const bitrate = yield* stream.getBitrate();
+      const listeners = yield* listen.listenerCount();
+      const listening = yield* scheduler.getListeningStatus();
+      const lastRebuild = yield* scheduler.getLastRebuild();
+      const audio = yield* silence.getStatus();
 
-      yield* updateThresholds(health, state, nextRebuild);
+      yield* updateThresholds(health, state);
 
+      // A full buffer of dead air is no better than an empty one
+      const bufferStatus = health.isHealthy
+        ? "healthy"
+        : health.percentage >= 30
+          ? "degraded"
+          : "unhealthy";
       return {
-        status: health.isHealthy ? "healthy" : health.percentage >= 30 ? "degraded" : "unhealthy",
+        status: audio.silent ? "silent" : bufferStatus,
         buffer: {
           sizeMB: Math.round((health.currentSize / 1024 / 1024) * 100) / 100,
           targetMB: Math.round((health.targetSize / 1024 / 1024) * 100) / 100,
           percentage: health.percentage,
           minutes: health.durationMinutes,
+          discontinuities: health.discontinuities,
+          missingSeconds: health.missingSeconds,
         },
         playback: state,
+        track: nowPlaying,
+        listeners,
+        stream: streamStatus,
+        audio: {
+          levelDb: audio.levelDb,
+          silentSince: audio.silentSince?.toISOString() ?? null,
+        },
+        bitrate: {
+          configuredKbps: bitrateKBps * 8,
+          ...bitrate,
+        },
         nextRebuild: nextRebuild.toISOString(),
+        lastRebuild: lastRebuild && {
+          reason: lastRebuild.reason,
+          outcome: lastRebuild.outcome,
+          startedAt: lastRebuild.startedAt.toISOString(),
+          finishedAt: lastRebuild.finishedAt?.toISOString() ?? null,
+        },
+        quietHours: listening.quietHours,
+        nextTransitions: listening.nextTransitions.map((transition) => ({
+          at: transition.at.toISOString(),
+          to: transition.to,
+        })),
       };
     });
 
-    const monitorLoop = Effect.gen(function* () {
-      while (true) {
-        yield* getHealth;
-        yield* Effect.sleep(Duration.seconds(30));
+    const setVolume = (req: Request) =>
+      Effect.gen(function* () {
+        const body = yield* Effect.tryPromise(
+          () => req.json() as Promise<{ volume?: unknown }>,
+        ).pipe(Effect.orElseSucceed(() => null));
+        if (typeof body?.volume !== "number") {
+          return errorResponse(400, 'Expected a JSON body like {"volume": 100}');
+        }
+
+        return yield* volume.set(body.volume).pipe(
+          Effect.map((status) => jsonResponse(status)),
+          Effect.catchAll((e) => Effect.succeed(errorResponse(400, e.message))),
+        );
+      });
+
+    const historyTypeList = historyTypes.join(", ");
+    const isHistoryType = (type: string): type is HistoryType =>
+      (historyTypes as readonly string[]).includes(type);
+
+    // ?type=outage,player_exit&from=2026-01-01&to=2026-01-08&limit=100; the last week by default
+    const getHistory = (url: URL) =>
+      Effect.gen(function* () {
+        const params = url.searchParams;
+        const types = params.get("type")?.split(",").filter(Boolean) ?? [];
+        const unknown = types.find((type) => !isHistoryType(type));
+        if (unknown !== undefined) {
+          return errorResponse(400, `Unknown type ${unknown}; use ${historyTypeList}`);
+        }
+
+        const parseDate = (name: string, fallback: number) => {
+          const value = params.get(name);
+          return value === null ? fallback : Date.parse(value);
+        };
+        const to = parseDate("to", Date.now());
+        const from = parseDate("from", to - Duration.toMillis(Duration.days(7)));
+        if (Number.isNaN(from) || Number.isNaN(to)) {
+          return errorResponse(400, "from and to must be dates like 2026-01-10 or ISO timestamps");
+        }
+
+        const limit = Number(params.get("limit") ?? 100);
+        if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+          return errorResponse(400, "limit must be a whole number from 1 to 1000");
+        }
+
+        const result = yield* history.query({
+          types: types.length > 0 ? types.filter(isHistoryType) : null,
+          from: new Date(from),
+          to: new Date(to),
+          limit,
+        });
+        return jsonResponse({
+          from: new Date(from).toISOString(),
+          to: new Date(to).toISOString(),
+          days: result.days,
+          entries: result.entries.map(({ at, type, durationMs, data }) => ({
+            at: at.toISOString(),
+            type,
+            durationMs,
+            ...data,
+          })),
+        });
+      });
+
+    // Gauges are read at scrape time; counters are updated where the events happen
+    const getMetrics = Effect.gen(function* () {
+      const health = yield* buffer.getHealth();
+      const state = yield* playback.getState();
+
+      yield* Metric.set(bufferBytes, health.currentSize);
+      yield* Metric.set(bufferTargetBytes, health.targetSize);
+      yield* Metric.set(bufferPercentage, health.percentage);
+      for (const candidate of ["stopped", "buffering", "playing", "paused"]) {
+        yield* Metric.set(
+          Metric.tagged(playbackState, "state", candidate),
+          candidate === state ? 1 : 0,
+        );
       }
+
+      return new Response(yield* renderPrometheus, {
+        headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+      });
     });
 
+    const playbackResponse = playback
+      .getState()
+      .pipe(Effect.map((state) => jsonResponse({ playback: state })));
+
+    // Runs a playback transition, answering 409 when the current state doesn't allow it
+    const changePlayback = (action: "start" | "stop" | "pause" | "resume") => () =>
+      playback[action]().pipe(
+        Effect.zip(playback.getState()),
+        Effect.flatMap(([changed, state]) =>
+          changed
+            ? playbackResponse
+            : Effect.succeed(errorResponse(409, `Cannot ${action} playback while ${state}`)),
+        ),
+      );
+
+    const healthResponse = getHealth.pipe(
+      Effect.map((h) =>
+        jsonResponse(h, h.status === "unhealthy" || h.status === "silent" ? 503 : 200),
+      ),
+      Effect.catchAllCause((cause) => {
+        const error = Cause.squash(cause);
+        const message = error instanceof Error ? error.message : Cause.pretty(cause);
+        return telemetry
+          .captureException(error, {
+            tags: { component: "health", event: "handler_error" },
+          })
+          .pipe(Effect.as(jsonResponse({ status: "unhealthy", error: message }, 503)));
+      }),
+    );
+
+    const formatEvent = ({ id, type, at, ...data }: PlayerEvent) =>
+      `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify({ id, type, at, ...data })}\n\n`;
+
+    // Server-Sent Events; EventSource resends the last ID it saw when it reconnects
+    const streamEvents = (req: Request) =>
+      Effect.sync(() => {
+        const lastEventId = Number.parseInt(req.headers.get("Last-Event-ID") ?? "", 10);
+        const body = events.subscribe(Number.isNaN(lastEventId) ? null : lastEventId).pipe(
+          Stream.map(formatEvent),
+          // Comments keep proxies from closing an idle connection
+          Stream.merge(Stream.tick(Duration.seconds(15)).pipe(Stream.as(": keepalive\n\n"))),
+          Stream.encodeText,
+        );
+
+        return new Response(Stream.toReadableStream(body), {
+          headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+          },
+        });
+      });
+
+    const routes: Record<string, Partial<Record<string, Handler>>> = {
+      "/health": { GET: () => healthResponse },
+      "/playback": { GET: () => playbackResponse },
+      "/playback/start": { POST: changePlayback("start") },
+      "/playback/stop": { POST: changePlayback("stop") },
+      "/playback/pause": { POST: changePlayback("pause") },
+      "/playback/resume": { POST: changePlayback("resume") },
+      "/volume": {
+        GET: () => volume.get().pipe(Effect.map((status) => jsonResponse(status))),
+        PUT: setVolume,
+      },
+      "/rebuild": {
+        POST: (_req, url) =>
+          scheduler
+            .rebuildNow(url.searchParams.get("reason") || "manual request")
+            .pipe(
+              Effect.map((started) =>
+                started
+                  ? jsonResponse({ status: "started" }, 202)
+                  : errorResponse(409, "A rebuild is already running"),
+              ),
+            ),
+      },
+      "/metrics": { GET: () => getMetrics },
+      "/events": { GET: streamEvents },
+      "/history": { GET: (_req, url) => getHistory(url) },
+      "/config": {
+        GET: () =>
+          config
+            .describe()
+            .pipe(
+              Effect.map((description) =>
+                jsonResponse({ ...description, loadedAt: description.loadedAt.toISOString() }),
+              ),
+            ),
+      },
+      "/openapi.json": { GET: () => Effect.succeed(jsonResponse(apiDescription)) },
+    };
+
+    const handle = (req: Request, url: URL) => {
+      const route = routes[url.pathname];
+      if (!route) return Effect.succeed(errorResponse(404, `No endpoint at ${url.pathname}`));
+
+      const handler = route[req.method];
+      if (!handler) {
+        const allowed = Object.keys(route).join(", ");
+        return Effect.succeed(
+          errorResponse(405, `Method not allowed; use ${allowed}`, { Allow: allowed }),
+        );
+      }
+
+      return handler(req, url).pipe(
+        Effect.catchAllCause((cause) => {
+          const error = Cause.squash(cause);
+          const message = error instanceof Error ? error.message : Cause.pretty(cause);
+          return telemetry
+            .captureException(error, {
+              tags: { component: "health", event: "handler_error" },
+            })
+            .pipe(Effect.as(errorResponse(503, message)));
+        }),
+      );
+    };
+
+    // Re-checks the thresholds whenever the fill level or playback state changes
+    const monitorLoop = Stream.zipLatest(buffer.healthChanges(), playback.stateChanges()).pipe(
+      Stream.runForEach(([health, state]) => updateThresholds(health, state)),
+    );
+
     const start = () =>
       Effect.gen(function* () {
         if (yield* Ref.get(serverRef)) return;
 
         const server = Bun.serve({
           port,
-          fetch: (req) => {
+          fetch: (req, server) => {
             const url = new URL(req.url);
-            if (url.pathname === "/rebuild") {
-              if (req.method !== "POST") {
-                return new Response("Method Not Allowed", { status: 405 });
-              }
-
-              return Effect.runPromise(
-                scheduler.rebuildNow().pipe(
-                  Effect.map(
-                    (started) =>
-                      new Response(
-                        JSON.stringify(
-                          { status: started ? "started" : "already_running" },
-                          null,
-                          2,
-                        ),
-                        {
-                          headers: { "Content-Type": "application/json" },
-                          status: started ? 202 : 409,
-                        },
-                      ),
-                  ),
-                  Effect.catchAllCause((cause) => {
-                    const error = Cause.squash(cause);
-                    const message = error instanceof Error ? error.message : Cause.pretty(cause);
-                    return captureException(error, {
-                      tags: { component: "health", event: "handler_error" },
-                    }).pipe(
-                      Effect.zipRight(
-                        Effect.succeed(
-                          new Response(
-                            JSON.stringify(
-                              {
-                                status: "error",
-                                error: message,
-                              },
-                              null,
-                              2,
-                            ),
-                            {
-                              headers: { "Content-Type": "application/json" },
-                              status: 503,
-                            },
-                          ),
-                        ),
-                      ),
-                    );
-                  }),
-                ),
-              );
+            if (url.pathname === "/listen") {
+              // Listeners may sit through a long refill without receiving bytes
+              server.timeout(req, 0);
+              return runPromise(listen.handle(req));
             }
 
-            if (url.pathname !== "/" && url.pathname !== "/health") {
-              return new Response("Not Found", { status: 404 });
+            if (url.pathname === "/events") {
+              server.timeout(req, 0);
             }
 
-            return Effect.runPromise(
-              getHealth.pipe(
-                Effect.map(
-                  (h) =>
-                    new Response(JSON.stringify(h, null, 2), {
-                      headers: { "Content-Type": "application/json" },
-                      status: h.status === "unhealthy" ? 503 : 200,
-                    }),
-                ),
-                Effect.catchAllCause((cause) => {
-                  const error = Cause.squash(cause);
-                  const message = error instanceof Error ? error.message : Cause.pretty(cause);
-                  return captureException(error, {
-                    tags: { component: "health", event: "handler_error" },
-                  }).pipe(
-                    Effect.zipRight(
-                      Effect.succeed(
-                        new Response(
-                          JSON.stringify(
-                            {
-                              status: "unhealthy",
-                              error: message,
-                            },
-                            null,
-                            2,
-                          ),
-                          {
-                            headers: { "Content-Type": "application/json" },
-                            status: 503,
-                          },
-                        ),
-                      ),
-                    ),
-                  );
-                }),
-              ),
-            );
+            // Browsers get the control panel; curl and monitoring keep getting JSON
+            if (url.pathname === "/") {
+              return req.headers.get("Accept")?.includes("text/html")
+                ? new Response(panelHtml, {
+                    headers: { "Content-Type": "text/html; charset=utf-8" },
+                  })
+                : runPromise(healthResponse);
+            }
+
+            return runPromise(handle(req, url));
           },
         });
 
@@ -0,0 +1,296 @@
+import { Database } from "bun:sqlite";
+import { Context, DateTime, Duration, Effect, Layer, Stream } from "effect";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { EventService, PlayerEvent } from "./EventService";
+import { AppConfig } from "../config";
+
+export const historyTypes = [
+  "outage",
+  "connect_failure",
+  "read_timeout",
+  "silence",
+  "buffering",
+  "player_exit",
+  "rebuild",
+  "pause",
+  "resume",
+] as const;
+
+export type HistoryType = (typeof historyTypes)[number];
+
+export interface HistoryEntry {
+  at: Date;
+  type: HistoryType;
+  // Set for periods such as outages, which are recorded when they end
+  durationMs: number | null;
+  data: Record<string, unknown>;
+}
+
+export interface HistoryDay {
+  // YYYY-MM-DD in TIMEZONE; periods count towards the day they started
+  date: string;
+  outageMinutes: number;
+  bufferingMinutes: number;
+  counts: Partial<Record<HistoryType, number>>;
+}
+
+export interface HistoryQuery {
+  // null for every type
+  types: readonly HistoryType[] | null;
+  from: Date;
+  to: Date;
+  limit: number;
+}
+
+export interface HistoryResult {
+  // Newest first, at most `limit`
+  entries: HistoryEntry[];
+  // Every day in the range with something recorded, oldest first
+  days: HistoryDay[];
+}
+
+export class HistoryService extends Context.Tag("HistoryService")<
+  HistoryService,
+  {
+    readonly query: (query: HistoryQuery) => Effect.Effect<HistoryResult>;
+  }
+>() {}
+
+interface HistoryRow {
+  at: number;
+  type: HistoryType;
+  duration_ms: number | null;
+  data: string;
+}
+
+interface PendingEntry {
+  at: number;
+  type: HistoryType;
+  durationMs: number | null;
+  data: Record<string, unknown>;
+}
+
+const minutes = (ms: number) => Math.round(ms / 6000) / 10;
+
+const dayOf = (at: number, zone: DateTime.TimeZone) => {
+  const { year, month, day } = DateTime.toParts(DateTime.unsafeMakeZoned(at, { timeZone: zone }));
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+const summarize = (rows: HistoryRow[], zone: DateTime.TimeZone): HistoryDay[] => {
+  const days = new Map<string, HistoryDay>();
+  for (const row of rows) {
+    const date = dayOf(row.at, zone);
+    let day = days.get(date);
+    if (!day) {
+      day = { date, outageMinutes: 0, bufferingMinutes: 0, counts: {} };
+      days.set(date, day);
+    }
+    day.counts[row.type] = (day.counts[row.type] ?? 0) + 1;
+    if (row.type === "outage") day.outageMinutes += row.duration_ms ?? 0;
+    if (row.type === "buffering") day.bufferingMinutes += row.duration_ms ?? 0;
+  }
+
+  return [...days.values()]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((day) => ({
+      ...day,
+      outageMinutes: minutes(day.outageMinutes),
+      bufferingMinutes: minutes(day.bufferingMinutes),
+    }));
+};
+
+export const HistoryServiceLive = Layer.scoped(
+  HistoryService,
+  Effect.gen(function* () {
+    const events = yield* EventService;
+    const dataDir = yield* AppConfig.DataDir;
+    const retention = yield* AppConfig.HistoryRetention;
+    const timezone = yield* AppConfig.Timezone;
+    const pruneInterval = Duration.hours(1);
+    const minBufferingMs = 1000;
+
+    const db = yield* Effect.acquireRelease(
+      Effect.tryPromise({
+        try: async () => {
+          await fs.mkdir(dataDir, { recursive: true });
+          const db = new Database(join(dataDir, "history.sqlite"), { create: true });
+          db.run("PRAGMA journal_mode = WAL");
+          db.run(`CREATE TABLE IF NOT EXISTS history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            at INTEGER NOT NULL,
+            type TEXT NOT NULL,
+            duration_ms INTEGER,
+            data TEXT NOT NULL
+          )`);
+          db.run("CREATE INDEX IF NOT EXISTS history_at ON history (at)");
+          return db;
+        },
+        catch: (e) => new Error(`Failed to open history database: ${e}`),
+      }).pipe(Effect.orDie),
+      (db) => Effect.sync(() => db.close()),
+    );
+
+    const insert = db.query(
+      "INSERT INTO history (at, type, duration_ms, data) VALUES (?, ?, ?, ?)",
+    );
+
+    // History is for looking back; a failed write shouldn't affect playback
+    const write = (entry: PendingEntry) =>
+      Effect.try({
+        try: () => insert.run(entry.at, entry.type, entry.durationMs, JSON.stringify(entry.data)),
+        catch: (e) => new Error(`Failed to record ${entry.type} in history: ${e}`),
+      }).pipe(Effect.catchAll((e) => Effect.logWarning(e.message)));
+
+    const prune = Effect.try({
+      try: () =>
+        db.run("DELETE FROM history WHERE at < ?", [Date.now() - Duration.toMillis(retention)]),
+      catch: (e) => new Error(`Failed to prune history: ${e}`),
+    }).pipe(Effect.catchAll((e) => Effect.logWarning(e.message)));
+
+    yield* Effect.forkScoped(
+      prune.pipe(Effect.zipRight(Effect.sleep(pruneInterval)), Effect.forever),
+    );
+
+    // Periods are tracked from the event that starts them to the one that ends them
+    let stopped = true;
+    let outageSince: number | null = null;
+    let bufferingSince: number | null = null;
+    let rebuildSince: number | null = null;
+
+    const entriesFor = (event: PlayerEvent): PendingEntry[] => {
+      const at = event.at.getTime();
+      switch (event.type) {
+        case "stream": {
+          if (event.status === "connected") {
+            const since = outageSince;
+            outageSince = null;
+            return since === null
+              ? []
+              : [{ at: since, type: "outage", durationMs: at - since, data: { url: event.url } }];
+          }
+          // The disconnect that follows starts the outage
+          if (event.status === "silent") {
+            return [
+              {
+                at,
+                type: "silence",
+                durationMs: null,
+                data: { url: event.url, silentSeconds: event.silentSeconds },
+              },
+            ];
+          }
+          // Neither is leaving a mirror for the primary, or stopping playback
+          if (event.status === "switching") return [];
+          if (!stopped) outageSince ??= at;
+          if (event.status === "failed") {
+            return [
+              {
+                at,
+                type: "connect_failure",
+                durationMs: null,
+                data: { url: event.url, error: event.error },
+              },
+            ];
+          }
+          return event.timedOut
+            ? [{ at, type: "read_timeout", durationMs: null, data: { url: event.url } }]
+            : [];
+        }
+        case "playback": {
+          const entries: PendingEntry[] = [];
+          // Playback that has caught up with the stream waits a moment for every chunk
+          if (
+            event.from === "buffering" &&
+            bufferingSince !== null &&
+            at - bufferingSince >= minBufferingMs
+          ) {
+            entries.push({
+              at: bufferingSince,
+              type: "buffering",
+              durationMs: at - bufferingSince,
+              data: { to: event.to },
+            });
+          }
+          if (event.from === "buffering") bufferingSince = null;
+          // Only a buffer running dry during playback; filling up at startup is expected
+          if (event.from === "playing" && event.to === "buffering") bufferingSince = at;
+          if (event.to === "paused") {
+            entries.push({ at, type: "pause", durationMs: null, data: {} });
+          }
+          if (event.from === "paused" && event.to !== "stopped") {
+            entries.push({ at, type: "resume", durationMs: null, data: {} });
+          }
+          stopped = event.to === "stopped";
+          if (stopped) outageSince = null;
+          return entries;
+        }
+        case "player":
+          return event.status === "exited"
+            ? [
+                {
+                  at,
+                  type: "player_exit",
+                  durationMs: null,
+                  data: { code: event.code, reason: event.reason },
+                },
+              ]
+            : [];
+        case "rebuild": {
+          if (event.status === "started") {
+            rebuildSince = at;
+            return [];
+          }
+          const since = rebuildSince ?? at;
+          rebuildSince = null;
+          return [
+            {
+              at: since,
+              type: "rebuild",
+              durationMs: at - since,
+              data: { reason: event.reason, outcome: event.outcome },
+            },
+          ];
+        }
+        case "buffer":
+          return [];
+      }
+    };
+
+    // From ID 0 so events published before this fiber subscribed are replayed
+    yield* Effect.forkScoped(
+      events
+        .subscribe(0)
+        .pipe(Stream.runForEach((event) => Effect.forEach(entriesFor(event), write))),
+    );
+
+    const query = ({ types, from, to, limit }: HistoryQuery) =>
+      Effect.try({
+        try: () => {
+          const typeFilter = types ? `AND type IN (${types.map(() => "?").join(", ")})` : "";
+          const rows = db
+            .query(
+              `SELECT at, type, duration_ms, data FROM history
+               WHERE at >= ? AND at < ? ${typeFilter} ORDER BY at DESC, id DESC`,
+            )
+            .all(from.getTime(), to.getTime(), ...(types ?? [])) as HistoryRow[];
+
+          return {
+            entries: rows.slice(0, limit).map(
+              (row): HistoryEntry => ({
+                at: new Date(row.at),
+                type: row.type,
+                durationMs: row.duration_ms,
+                data: JSON.parse(row.data) as Record<string, unknown>,
+              }),
+            ),
+            days: summarize(rows, timezone),
+          };
+        },
+        catch: (e) => new Error(`Failed to read history: ${e}`),
+      }).pipe(Effect.orDie);
+
+    return { query };
+  }),
+);
@@ -0,0 +1,133 @@
+import { Context, Duration, Effect, Layer, Ref, Runtime } from "effect";
+import { BufferCursor, BufferService } from "./BufferService";
+import { StreamService } from "./StreamService";
+import { AppConfig } from "../config";
+import { errorResponse } from "../utils/http";
+import { createIcyInjector } from "../utils/icy";
+
+export class ListenService extends Context.Tag("ListenService")<
+  ListenService,
+  {
+    readonly handle: (req: Request) => Effect.Effect<Response>;
+    readonly listenerCount: () => Effect.Effect<number>;
+  }
+>() {}
+
+export const ListenServiceLive = Layer.effect(
+  ListenService,
+  Effect.gen(function* () {
+    const buffer = yield* BufferService;
+    const stream = yield* StreamService;
+    const maxClients = yield* AppConfig.ListenMaxClients;
+    const icyMetadata = yield* AppConfig.ListenIcyMetadata;
+    // For the response body callbacks, so listener logs reach the log file too
+    const runtime = yield* Effect.runtime<never>();
+
+    const chunkDurationMs = 100;
+    // Sent as fast as the client takes it, so players start without waiting
+    const burstMs = 3000;
+    // A client this far behind real time gets moved to the playback position
+    const maxLagMs = 30000;
+    const metaint = 16000;
+
+    const listenersRef = yield* Ref.make(0);
+
+    const session = (withMetadata: boolean) =>
+      Effect.gen(function* () {
+        const cursor: BufferCursor = { position: yield* buffer.getReadPosition(), synced: false };
+        const inject = withMetadata ? createIcyInjector(metaint) : null;
+        let nextAt = performance.now();
+
+        // Returns the next paced chunk for this client, waiting while the buffer is empty
+        return Effect.gen(function* () {
+          while (true) {
+            const now = performance.now();
+            if (now - nextAt > maxLagMs) {
+              yield* Effect.logWarning("Listener fell behind; skipping to the playback position");
+              cursor.position = yield* buffer.getReadPosition();
+              cursor.synced = false;
+              nextAt = now;
+            }
+
+            const dueIn = nextAt - burstMs - now;
+            if (dueIn > 0) yield* Effect.sleep(Duration.millis(dueIn));
+
+            const read = yield* buffer.readFrames(cursor, chunkDurationMs);
+            Object.assign(cursor, read.cursor);
+
+            if (!read.chunk) {
+              nextAt = Math.max(nextAt, performance.now());
+              yield* buffer.waitForAudio();
+              continue;
+            }
+
+            nextAt += read.chunk.durationMs;
+            return inject ? inject(read.chunk.data, read.title) : read.chunk.data;
+          }
+        });
+      });
+
+    const handle = (req: Request) =>
+      Effect.gen(function* () {
+        if (req.method !== "GET") {
+          return errorResponse(405, "Method not allowed; use GET", { Allow: "GET" });
+        }
+
+        const admitted = yield* Ref.modify(listenersRef, (count) =>
+          count < maxClients ? [true, count + 1] : [false, count],
+        );
+        if (!admitted) {
+          return errorResponse(503, "Too many listeners");
+        }
+
+        const withMetadata = icyMetadata && req.headers.get("icy-metadata") === "1";
+        const next = yield* session(withMetadata);
+        const { detectedKbps } = yield* stream.getBitrate();
+        const count = yield* Ref.get(listenersRef);
+        yield* Effect.log(`Listener connected (${count}/${maxClients})`);
+
+        let closed = false;
+        const release = () => {
+          if (closed) return;
+          closed = true;
+          Runtime.runFork(runtime)(
+            Ref.updateAndGet(listenersRef, (n) => n - 1).pipe(
+              Effect.flatMap((n) => Effect.log(`Listener disconnected (${n}/${maxClients})`)),
+            ),
+          );
+        };
+
+        const body = new ReadableStream<Uint8Array>(
+          {
+            pull: (controller) =>
+              Runtime.runPromise(runtime)(next).then(
+                (chunk) => {
+                  if (!closed) controller.enqueue(chunk);
+                },
+                (e) => {
+                  release();
+                  controller.error(e);
+                },
+              ),
+            cancel: release,
+          },
+          // Only read ahead when the client asks, so slow clients hold their cursor back
+          { highWaterMark: 0 },
+        );
+
+        const headers: Record<string, string> = {
+          "Content-Type": "audio/mpeg",
+          "Cache-Control": "no-cache, no-store",
+          "icy-name": "Classic FM (buffered)",
+        };
+        if (detectedKbps) headers["icy-br"] = String(detectedKbps);
+        if (withMetadata) headers["icy-metaint"] = String(metaint);
+
+        return new Response(body, { headers });
+      });
+
+    const listenerCount = () => Ref.get(listenersRef);
+
+    return { handle, listenerCount };
+  }),
+);
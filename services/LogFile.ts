@@ -0,0 +1,158 @@
+import {
+  Cause,
+  Context,
+  Duration,
+  Effect,
+  FiberId,
+  HashMap,
+  Layer,
+  List,
+  Logger,
+  Option,
+  Stream,
+} from "effect";
+import { closeSync, fstatSync, mkdirSync, openSync, renameSync, rmSync, writeSync } from "fs";
+import { dirname } from "path";
+import { BufferService } from "./BufferService";
+import { PlaybackService } from "./PlaybackService";
+import { AppConfig } from "../config";
+
+export class LogFile extends Context.Tag("LogFile")<
+  LogFile,
+  {
+    // Merged into the context of every line written from now on
+    readonly setContext: (fields: Record<string, unknown>) => Effect.Effect<void>;
+  }
+>() {}
+
+// Appends lines to `path`, moving it to path.1 (and path.1 to path.2, and so on) once
+// it reaches `maxBytes` or `maxAgeMs`; only `keep` rotated files are kept
+const rotatingFile = (path: string, maxBytes: number, maxAgeMs: number, keep: number) => {
+  let fd: number | null = null;
+  let size = 0;
+  let openedAt = 0;
+  let warned = false;
+
+  const open = () => {
+    mkdirSync(dirname(path), { recursive: true });
+    fd = openSync(path, "a");
+    const stat = fstatSync(fd);
+    size = stat.size;
+    // An existing file keeps aging across restarts
+    openedAt = size > 0 && stat.birthtimeMs > 0 ? stat.birthtimeMs : Date.now();
+  };
+
+  const rotate = () => {
+    if (fd !== null) closeSync(fd);
+    rmSync(`${path}.${keep}`, { force: true });
+    for (let i = keep - 1; i >= 1; i--) {
+      try {
+        renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+      } catch {
+        // Not rotated that many times yet
+      }
+    }
+    if (keep > 0) renameSync(path, `${path}.1`);
+    else rmSync(path, { force: true });
+    open();
+  };
+
+  // Logging can't fail, so a broken log file is reported once on stderr and skipped
+  const write = (line: string) => {
+    try {
+      if (fd === null) open();
+      const bytes = Buffer.byteLength(line);
+      if (size > 0 && (size + bytes > maxBytes || Date.now() - openedAt > maxAgeMs)) rotate();
+      writeSync(fd!, line);
+      size += bytes;
+    } catch (e) {
+      if (!warned) console.error(`Failed to write log file ${path}: ${e}`);
+      warned = true;
+    }
+  };
+
+  const close = () => {
+    if (fd !== null) closeSync(fd);
+    fd = null;
+  };
+
+  return { write, close };
+};
+
+const messageText = (message: unknown) =>
+  (Array.isArray(message) ? message : [message])
+    .map((part) => (typeof part === "string" ? part : JSON.stringify(part)))
+    .join(" ");
+
+// One JSON object per line, so the file can be read back with jq over SSH
+const jsonLogger = (write: (line: string) => void, context: Record<string, unknown>) =>
+  Logger.make(({ logLevel, message, cause, date, fiberId, annotations, spans }) => {
+    const now = date.getTime();
+    const line = {
+      timestamp: date.toISOString(),
+      level: logLevel.label,
+      fiber: FiberId.threadName(fiberId),
+      message: messageText(message),
+      ...(Cause.isEmpty(cause) ? {} : { cause: Cause.pretty(cause) }),
+      spans: Object.fromEntries(
+        List.toArray(spans).map((span) => [span.label, now - span.startTime]),
+      ),
+      annotations: Object.fromEntries(HashMap.toEntries(annotations)),
+      context,
+    };
+    write(`${JSON.stringify(line)}\n`);
+  });
+
+export const LogFileLive = Layer.unwrapScoped(
+  Effect.gen(function* () {
+    const path = yield* AppConfig.LogFile;
+    if (Option.isNone(path)) {
+      return Layer.succeed(LogFile, { setContext: () => Effect.void });
+    }
+
+    const maxBytes = (yield* AppConfig.LogMaxSizeMb) * 1024 * 1024;
+    const maxAgeMs = Duration.toMillis(yield* AppConfig.LogMaxAge);
+    const keep = yield* AppConfig.LogRetention;
+    const file = yield* Effect.acquireRelease(
+      Effect.sync(() => rotatingFile(path.value, maxBytes, maxAgeMs, keep)),
+      (file) => Effect.sync(() => file.close()),
+    );
+
+    const context: Record<string, unknown> = {};
+    const logFile = LogFile.of({
+      setContext: (fields) => Effect.sync(() => Object.assign(context, fields)),
+    });
+
+    return Layer.merge(
+      Layer.succeed(LogFile, logFile),
+      Logger.add(jsonLogger(file.write, context)),
+    );
+  }),
+);
+
+// Keeps the buffer and playback state in the log file's context; built once those
+// services exist, so lines logged while starting up go without it
+export const LogContextLive = Layer.scopedDiscard(
+  Effect.gen(function* () {
+    const logFile = yield* LogFile;
+    const buffer = yield* BufferService;
+    const playback = yield* PlaybackService;
+
+    yield* Effect.forkScoped(
+      buffer.healthChanges().pipe(
+        Stream.runForEach((health) =>
+          logFile.setContext({
+            bufferPercentage: Math.round(health.percentage * 10) / 10,
+            bufferMinutes: Math.round(health.durationMinutes * 10) / 10,
+            bufferHealthy: health.isHealthy,
+          }),
+        ),
+      ),
+    );
+    yield* Effect.forkScoped(
+      playback
+        .stateChanges()
+        .pipe(Stream.runForEach((state) => logFile.setContext({ playbackState: state }))),
+    );
+  }),
+);
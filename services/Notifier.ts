@@ -0,0 +1,285 @@
+import { Context, Duration, Effect, Layer, Option, Redacted, Stream } from "effect";
+import { ConfigService } from "./ConfigService";
+import { EventService, PlayerEvent } from "./EventService";
+import { AppConfig } from "../config";
+
+export type NotificationEvent =
+  | "buffer_low"
+  | "buffer_recovered"
+  | "stream_down"
+  | "stream_recovered"
+  | "player_exit";
+
+export interface Notification {
+  event: NotificationEvent;
+  title: string;
+  message: string;
+  priority: "low" | "default" | "high";
+}
+
+export class Notifier extends Context.Tag("Notifier")<
+  Notifier,
+  {
+    // Sends to every sink routed for the event, unless deduplicated or rate limited
+    readonly notify: (notification: Notification) => Effect.Effect<void>;
+  }
+>() {}
+
+interface NotificationSink {
+  readonly name: string;
+  // null for every event
+  readonly events: ReadonlySet<string> | null;
+  readonly send: (notification: Notification) => Effect.Effect<void, Error>;
+}
+
+// Alerts whose recovery is only worth sending if the alert itself was sent
+const recoveryOf: Partial<Record<NotificationEvent, NotificationEvent>> = {
+  buffer_recovered: "buffer_low",
+  stream_recovered: "stream_down",
+};
+
+const sendTimeout = Duration.seconds(10);
+
+const post = (url: string, init: RequestInit) =>
+  Effect.tryPromise({
+    try: async (signal) => {
+      const response = await fetch(url, { ...init, method: "POST", signal });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    },
+    catch: (e) => (e instanceof Error ? e : new Error(String(e))),
+  });
+
+const webhookSink = (url: string) => (notification: Notification) =>
+  post(url, {
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...notification, at: new Date().toISOString() }),
+  });
+
+const ntfyPriority = { low: "low", default: "default", high: "urgent" } as const;
+const gotifyPriority = { low: 2, default: 5, high: 8 } as const;
+
+const pushSink =
+  (url: string, format: "ntfy" | "gotify", token: Option.Option<Redacted.Redacted>) =>
+  (notification: Notification) => {
+    const secret = Option.map(token, Redacted.value);
+    if (format === "gotify") {
+      return post(`${url.replace(/\/$/, "")}/message`, {
+        headers: {
+          "Content-Type": "application/json",
+          ...Option.match(secret, { onNone: () => ({}), onSome: (t) => ({ "X-Gotify-Key": t }) }),
+        },
+        body: JSON.stringify({
+          title: notification.title,
+          message: notification.message,
+          priority: gotifyPriority[notification.priority],
+        }),
+      });
+    }
+
+    return post(url, {
+      headers: {
+        Title: notification.title,
+        Priority: ntfyPriority[notification.priority],
+        Tags: notification.event,
+        ...Option.match(secret, {
+          onNone: () => ({}),
+          onSome: (t) => ({ Authorization: `Bearer ${t}` }),
+        }),
+      },
+      body: notification.message,
+    });
+  };
+
+// Runs through the shell so NOTIFY_COMMAND can be a pipeline
+const commandSink = (command: string) => (notification: Notification) =>
+  Effect.tryPromise({
+    try: async (signal) => {
+      const proc = Bun.spawn(["sh", "-c", command], {
+        env: {
+          ...process.env,
+          CLASSICFM_EVENT: notification.event,
+          CLASSICFM_TITLE: notification.title,
+          CLASSICFM_MESSAGE: notification.message,
+          CLASSICFM_PRIORITY: notification.priority,
+        },
+        stdin: "ignore",
+        stdout: "ignore",
+        stderr: "ignore",
+      });
+      signal.addEventListener("abort", () => proc.kill());
+      const code = await proc.exited;
+      if (code !== 0) throw new Error(`exited with code ${code}`);
+    },
+    catch: (e) => (e instanceof Error ? e : new Error(String(e))),
+  });
+
+const routedTo = (events: Option.Option<ReadonlyArray<string>>) =>
+  Option.match(events, { onNone: () => null, onSome: (list) => new Set(list) });
+
+// Turns player events into notifications; the stream also closes without a fault when
+// playback is stopped, and when a mirror makes way for the primary
+const notificationFor = (event: PlayerEvent, stopped: boolean): Notification | null => {
+  switch (event.type) {
+    case "buffer":
+      return event.level === "low"
+        ? {
+            event: "buffer_low",
+            title: "Radio buffer low",
+            message: `The buffer dropped to ${Math.round(event.percentage)}% after being healthy; playback may stop soon.`,
+            priority: "high",
+          }
+        : {
+            event: "buffer_recovered",
+            title: "Radio buffer recovered",
+            message: `The buffer is back at ${Math.round(event.percentage)}%.`,
+            priority: "low",
+          };
+    case "stream": {
+      if (event.status === "connected") {
+        return {
+          event: "stream_recovered",
+          title: "Radio stream back",
+          message: `Connected to ${event.url} again.`,
+          priority: "low",
+        };
+      }
+      if (stopped || event.status === "switching") return null;
+      const problem =
+        event.status === "failed"
+          ? `Can't connect to ${event.url}: ${event.error}`
+          : event.status === "silent"
+            ? `${event.url} has been silent for ${event.silentSeconds}s`
+            : `Lost ${event.url}: ${event.error ?? "the server ended the stream"}`;
+      return {
+        event: "stream_down",
+        title: "Radio stream down",
+        message: `${problem}. Playback continues from the buffer.`,
+        priority: "default",
+      };
+    }
+    case "player":
+      return event.status === "exited"
+        ? {
+            event: "player_exit",
+            title: "Radio player stopped",
+            message: `The player ${event.reason} and is being restarted.`,
+            priority: "high",
+          }
+        : null;
+    default:
+      return null;
+  }
+};
+
+export const NotifierLive = Layer.scoped(
+  Notifier,
+  Effect.gen(function* () {
+    const events = yield* EventService;
+    const config = yield* ConfigService;
+    const webhookUrl = yield* AppConfig.NotifyWebhookUrl;
+    const pushUrl = yield* AppConfig.NotifyPushUrl;
+    const pushFormat = yield* AppConfig.NotifyPushFormat;
+    const pushToken = yield* AppConfig.NotifyPushToken;
+    const command = yield* AppConfig.NotifyCommand;
+    const rateWindowMs = Duration.toMillis(Duration.hours(1));
+
+    const sinks: NotificationSink[] = [];
+    if (Option.isSome(webhookUrl)) {
+      sinks.push({
+        name: "webhook",
+        events: routedTo(yield* AppConfig.NotifyWebhookEvents),
+        send: webhookSink(webhookUrl.value),
+      });
+    }
+    if (Option.isSome(pushUrl)) {
+      sinks.push({
+        name: pushFormat,
+        events: routedTo(yield* AppConfig.NotifyPushEvents),
+        send: pushSink(pushUrl.value, pushFormat, pushToken),
+      });
+    }
+    if (Option.isSome(command)) {
+      sinks.push({
+        name: "command",
+        events: routedTo(yield* AppConfig.NotifyCommandEvents),
+        send: commandSink(command.value),
+      });
+    }
+
+    // When each event was last sent, the alerts still waiting for their recovery, and
+    // what each sink sent in the last hour
+    const lastSent = new Map<NotificationEvent, number>();
+    const openAlerts = new Set<NotificationEvent>();
+    const recentSends = new Map<string, number[]>();
+
+    const sendTo = (
+      sink: NotificationSink,
+      notification: Notification,
+      now: number,
+      rateLimit: number,
+    ) => {
+      const recent = (recentSends.get(sink.name) ?? []).filter((at) => now - at < rateWindowMs);
+      if (recent.length >= rateLimit) {
+        recentSends.set(sink.name, recent);
+        return Effect.logWarning(
+          `Not sending ${notification.event} to ${sink.name}: ${rateLimit} sent in the last hour`,
+        );
+      }
+
+      recentSends.set(sink.name, [...recent, now]);
+      return sink.send(notification).pipe(
+        Effect.timeoutFail({
+          duration: sendTimeout,
+          onTimeout: () => new Error(`timed out after ${Duration.format(sendTimeout)}`),
+        }),
+        Effect.catchAll((e) =>
+          Effect.logWarning(`Failed to notify ${sink.name} of ${notification.event}: ${e.message}`),
+        ),
+      );
+    };
+
+    // The limits are read per notification, since a config reload can change them
+    const notify = (notification: Notification) =>
+      Effect.flatMap(config.settings(), (settings) => {
+        const now = Date.now();
+        const dedupeWindowMs = Duration.toMillis(settings.NotifyDedupeWindow);
+        const alert = recoveryOf[notification.event];
+        if (alert) {
+          // Recoveries follow a sent alert, once
+          if (!openAlerts.delete(alert)) return Effect.void;
+        } else {
+          const last = lastSent.get(notification.event);
+          if (last !== undefined && now - last < dedupeWindowMs) return Effect.void;
+          lastSent.set(notification.event, now);
+          openAlerts.add(notification.event);
+        }
+
+        const routed = sinks.filter((sink) => sink.events?.has(notification.event) ?? true);
+        return Effect.forEach(
+          routed,
+          (sink) => sendTo(sink, notification, now, settings.NotifyRateLimit),
+          {
+            concurrency: "unbounded",
+            discard: true,
+          },
+        );
+      });
+
+    if (sinks.length > 0) {
+      yield* Effect.log(`Notifications: ${sinks.map((sink) => sink.name).join(", ")}`);
+      // From ID 0 so events published before this fiber subscribed are replayed
+      let stopped = true;
+      yield* Effect.forkScoped(
+        events.subscribe(0).pipe(
+          Stream.runForEach((event) => {
+            if (event.type === "playback") stopped = event.to === "stopped";
+            const notification = notificationFor(event, stopped);
+            return notification ? notify(notification) : Effect.void;
+          }),
+        ),
+      );
+    }
+
+    return { notify };
+  }),
+);
@@ -1,22 +1,45 @@
-import { Context, Effect, Layer, Ref, Stream, Schedule, Duration, Fiber } from "effect";
-import { Subprocess } from "bun";
+import {
+  Context,
+  Effect,
+  Layer,
+  Metric,
+  Ref,
+  Stream,
+  Schedule,
+  Duration,
+  Fiber,
+  SubscriptionRef,
+} from "effect";
 import { BufferService } from "./BufferService";
-import { StreamService } from "./StreamService";
+import { EventService } from "./EventService";
+import { PlayerBackend, PlayerHandle } from "./PlayerBackend";
+import { StreamPart, StreamService } from "./StreamService";
+import { VolumeService } from "./VolumeService";
+import { Telemetry } from "./Telemetry";
 import { AppConfig } from "../config";
-import { addBreadcrumb, captureException, captureMessage } from "../utils/sentry";
-
-type PlaybackState = "stopped" | "buffering" | "playing" | "paused";
+import {
+  bufferingSeconds,
+  ingestedBytes,
+  playedBytes,
+  playerExits,
+  playerRestarts,
+} from "../utils/metrics";
+import { adjustFrameGain, countFrames, parseFrameHeader } from "../utils/mp3";
+
+export type PlaybackState = "stopped" | "buffering" | "playing" | "paused";
 type PlaybackRunResult = "stopped" | "restart";
-type PlayerProcess = Subprocess<"pipe", "ignore", "ignore">;
 
 export class PlaybackService extends Context.Tag("PlaybackService")<
   PlaybackService,
   {
-    readonly start: () => Effect.Effect<void>;
-    readonly pause: () => Effect.Effect<void>;
-    readonly resume: () => Effect.Effect<void>;
-    readonly stop: () => Effect.Effect<void>;
+    // Each returns false when the current state doesn't allow it
+    readonly start: () => Effect.Effect<boolean>;
+    readonly pause: () => Effect.Effect<boolean>;
+    readonly resume: () => Effect.Effect<boolean>;
+    readonly stop: () => Effect.Effect<boolean>;
     readonly getState: () => Effect.Effect<PlaybackState>;
+    // The current state, then each change
+    readonly stateChanges: () => Stream.Stream<PlaybackState>;
   }
 >() {}
 
@@ -25,61 +48,113 @@ export const PlaybackServiceLive = Layer.effect(
   Effect.gen(function* () {
     const buffer = yield* BufferService;
     const stream = yield* StreamService;
-    const bitrateKBps = yield* AppConfig.BitrateKBps;
+    const backend = yield* PlayerBackend;
+    const volume = yield* VolumeService;
+    const events = yield* EventService;
+    const telemetry = yield* Telemetry;
     const initialBufferMinutes = yield* AppConfig.InitialBufferMinutes;
 
-    const stateRef = yield* Ref.make<PlaybackState>("stopped");
+    const stateRef = yield* SubscriptionRef.make<PlaybackState>("stopped");
     const bufferFiberRef = yield* Ref.make<Fiber.Fiber<void, unknown> | null>(null);
     const playbackFiberRef = yield* Ref.make<Fiber.Fiber<void, unknown> | null>(null);
-    const playerRef = yield* Ref.make<PlayerProcess | null>(null);
+    const playerRef = yield* Ref.make<PlayerHandle | null>(null);
+
+    const setState = (next: PlaybackState) =>
+      Ref.getAndSet(stateRef, next).pipe(
+        Effect.flatMap((from) =>
+          from === next ? Effect.void : events.publish({ type: "playback", from, to: next }),
+        ),
+      );
+
+    // Runs an effect that waits for audio, counting the wait as time spent buffering
+    const whileBuffering = <A>(effect: Effect.Effect<A>) =>
+      Effect.timed(effect).pipe(
+        Effect.tap(([elapsed]) =>
+          Metric.incrementBy(bufferingSeconds, Duration.toSeconds(elapsed)),
+        ),
+        Effect.map(([, result]) => result),
+      );
 
     // Continuously fill buffer from stream
     const bufferLoop = Effect.gen(function* () {
       yield* Effect.log("Starting buffer fill");
 
+      // The first audio after a dropped connection marks the gap since the last audio
+      let lastAudioAt: number | null = null;
+      let dropReason: string | null = null;
+
       while (true) {
         const audioStream = yield* stream.connect().pipe(
           Effect.retry(
             Schedule.exponential(Duration.seconds(1)).pipe(Schedule.intersect(Schedule.recurs(5))),
           ),
           Effect.catchAll((e) =>
-            captureMessage("Stream connect failed", "warning", {
-              tags: { component: "stream", event: "connect" },
-              extra: {
-                error: e instanceof Error ? e.message : String(e),
-              },
-            }).pipe(
-              Effect.zipRight(Effect.logError(e)),
-              Effect.zipRight(Effect.sleep(Duration.seconds(2))),
-              Effect.as(Stream.empty as Stream.Stream<Uint8Array, Error>),
-            ),
+            telemetry
+              .captureMessage("Stream connect failed", "warning", {
+                tags: { component: "stream", event: "connect" },
+                extra: {
+                  error: e instanceof Error ? e.message : String(e),
+                },
+              })
+              .pipe(
+                Effect.zipRight(Effect.logError(e)),
+                Effect.zipRight(Effect.sleep(Duration.seconds(2))),
+                Effect.as(Stream.empty as Stream.Stream<StreamPart, Error>),
+              ),
           ),
         );
 
-        yield* Stream.runForEach(audioStream, (chunk) =>
+        const handlePart = (part: StreamPart) => {
+          switch (part._tag) {
+            case "Audio":
+              return Effect.gen(function* () {
+                const now = Date.now();
+                if (dropReason !== null && lastAudioAt !== null) {
+                  yield* buffer.recordDiscontinuity(dropReason, now - lastAudioAt);
+                }
+                dropReason = null;
+                lastAudioAt = now;
+                yield* Metric.incrementBy(ingestedBytes, part.data.length);
+                yield* buffer.append(part.data);
+              });
+            case "Title":
+              return buffer.recordTitle(part.title);
+            case "Bitrate":
+              return Effect.log(`Stream bitrate: ${part.kbps} kbps (from ${part.source})`).pipe(
+                Effect.zipRight(buffer.setBitrate(part.kbps)),
+              );
+          }
+        };
+
+        yield* Stream.runForEach(audioStream, (part) =>
           Ref.get(stateRef).pipe(
-            Effect.flatMap((s) => (s === "stopped" ? Effect.void : buffer.append(chunk))),
+            Effect.flatMap((s) => (s === "stopped" ? Effect.void : handlePart(part))),
           ),
         ).pipe(
-          Effect.catchAll((e) =>
-            captureMessage("Stream read failed", "warning", {
-              tags: { component: "stream", event: "read" },
-              extra: {
-                error: e instanceof Error ? e.message : String(e),
-              },
-            }).pipe(
-              Effect.zipRight(Effect.logError(e)),
-              Effect.zipRight(Effect.sleep(Duration.seconds(2))),
-            ),
-          ),
+          Effect.catchAll((e) => {
+            const error = e instanceof Error ? e.message : String(e);
+            dropReason ??= error;
+            return telemetry
+              .captureMessage("Stream read failed", "warning", {
+                tags: { component: "stream", event: "read" },
+                extra: { error },
+              })
+              .pipe(
+                Effect.zipRight(Effect.logError(e)),
+                Effect.zipRight(Effect.sleep(Duration.seconds(2))),
+              );
+          }),
         );
+
+        // The stream ended, so audio is missing until the next connection
+        dropReason ??= "stream ended";
       }
     });
 
-    // Play audio via ffplay
+    // Play audio through the configured player backend
     const playbackLoop = Effect.gen(function* () {
       yield* Effect.log("Starting audio playback");
-      yield* addBreadcrumb({
+      yield* telemetry.addBreadcrumb({
         category: "playback",
         message: "Playback loop starting",
         level: "info",
@@ -87,40 +162,52 @@ export const PlaybackServiceLive = Layer.effect(
       if (initialBufferMinutes > 0) {
         yield* Effect.log(`Waiting for initial buffer (${initialBufferMinutes} min)...`);
       }
-      yield* buffer.waitForMinutes(initialBufferMinutes);
+      yield* whileBuffering(buffer.waitForMinutes(initialBufferMinutes));
       yield* Effect.log("Buffer ready");
 
+      // Whole MP3 frames adding up to ~100ms, paced by their actual duration
       const chunkDurationMs = 100;
-      const bytesPerChunk = Math.floor((bitrateKBps * 1024 * chunkDurationMs) / 1000); // 100ms chunks
-      const writeChunk = (player: PlayerProcess, chunk: Uint8Array) =>
-        Effect.gen(function* () {
-          if (!player.stdin) {
-            return yield* Effect.fail(new Error("Player stdin unavailable"));
-          }
-          yield* Effect.try({
-            try: () => player.stdin.write(chunk),
-            catch: (e) => new Error(`Player write failed: ${e}`),
-          });
-          yield* Effect.tryPromise({
-            try: () => Promise.resolve(player.stdin.flush()),
-            catch: (e) => new Error(`Player flush failed: ${e}`),
-          });
-        });
-
-      const runLoop = (player: PlayerProcess) =>
+      // Gain below this is silence; fading from it takes ~1.2s at one step per frame
+      const fadeFloor = -48;
+      const runLoop = (player: PlayerHandle) =>
         Effect.gen(function* () {
           let nextWriteAt: number | null = null;
+          // Current gain in 1.5dB steps. It moves one step per frame toward the target, so
+          // startup, pause, resume and volume changes ramp instead of jumping.
+          let gain = fadeFloor;
+          const applyGain = (data: Uint8Array, target: number, step = 1) => {
+            let offset = 0;
+            let header = parseFrameHeader(data, offset);
+            while (header) {
+              gain += Math.sign(target - gain) * Math.min(step, Math.abs(target - gain));
+              adjustFrameGain(data, offset, header, gain <= fadeFloor ? -Infinity : gain);
+              offset += header.frameLength;
+              header = parseFrameHeader(data, offset);
+            }
+          };
+
           while (true) {
             const state = yield* Ref.get(stateRef);
 
             if (state === "stopped") return "stopped" as PlaybackRunResult;
 
-            if (player.exitCode !== null) {
-              yield* Effect.logError(`Player exited with code ${player.exitCode}`);
-              yield* captureMessage("Player exited", "error", {
-                tags: { component: "playback", event: "player_exit" },
+            const exit = player.exit();
+            if (exit) {
+              yield* Effect.logError(`Player ${exit.reason}`);
+              yield* events.publish({
+                type: "player",
+                status: "exited",
+                code: exit.code,
+                reason: exit.reason,
+              });
+              yield* Metric.increment(
+                Metric.tagged(playerExits, "code", String(exit.code ?? "signal")),
+              );
+              yield* telemetry.captureMessage("Player exited", "error", {
+                tags: { component: "playback", event: "player_exit", backend: backend.name },
                 extra: {
-                  exitCode: player.exitCode,
+                  exitCode: exit.code,
+                  reason: exit.reason,
                   pid: player.pid,
                   state,
                 },
@@ -128,34 +215,43 @@ export const PlaybackServiceLive = Layer.effect(
               return "restart" as PlaybackRunResult;
             }
 
-            if (state === "paused") {
+            // Keep playing while paused until the fade-out reaches silence
+            if (state === "paused" && gain <= fadeFloor) {
               nextWriteAt = null;
-              yield* Effect.sleep(Duration.millis(100));
+              yield* stateRef.changes.pipe(
+                Stream.filter((s) => s !== "paused"),
+                Stream.take(1),
+                Stream.runDrain,
+              );
               continue;
             }
 
-            const bufSize = yield* buffer.size();
+            const chunk = yield* buffer.consumeFrames(chunkDurationMs);
 
-            if (bufSize < bytesPerChunk) {
+            if (!chunk) {
               if (state === "playing") {
-                yield* Ref.set(stateRef, "buffering");
+                const bufSize = yield* buffer.size();
+                yield* setState("buffering");
                 yield* Effect.log("Buffer low, waiting...");
-                yield* addBreadcrumb({
+                yield* telemetry.addBreadcrumb({
                   category: "buffer",
                   message: "Buffer low during playback",
                   level: "warning",
-                  data: { bufSize, bytesPerChunk },
+                  data: { bufSize, chunkDurationMs },
                 });
               }
               nextWriteAt = null;
-              yield* Effect.sleep(Duration.millis(500));
+              // Fade back in after the gap
+              gain = fadeFloor;
+              const wait = buffer.waitForAudio();
+              yield* state === "paused" ? wait : whileBuffering(wait);
               continue;
             }
 
             if (state === "buffering") {
-              yield* Ref.set(stateRef, "playing");
+              yield* setState("playing");
               yield* Effect.log("Resuming playback");
-              yield* addBreadcrumb({
+              yield* telemetry.addBreadcrumb({
                 category: "playback",
                 message: "Playback resumed",
                 level: "info",
@@ -167,26 +263,40 @@ export const PlaybackServiceLive = Layer.effect(
               nextWriteAt = performance.now();
             }
 
-            const chunk = yield* buffer.consume(bytesPerChunk);
-            if (chunk) {
-              const wrote = yield* writeChunk(player, chunk).pipe(
-                Effect.as(true),
-                Effect.catchAll((e) =>
-                  captureException(e, {
+            const target = state === "paused" ? fadeFloor : yield* volume.gainSteps();
+            if (chunk.gapAfter) {
+              // Fade out over this chunk and back in after the gap, instead of jumping
+              const frames = countFrames(chunk.data);
+              applyGain(chunk.data, fadeFloor, Math.ceil((gain - fadeFloor) / Math.max(1, frames)));
+              gain = fadeFloor;
+              const seconds = Math.round(chunk.gapAfter.gapMs / 1000);
+              yield* Effect.log(
+                `Crossing a ${seconds}s gap in the recording (${chunk.gapAfter.reason})`,
+              );
+            } else {
+              applyGain(chunk.data, Math.max(fadeFloor, target));
+            }
+
+            const wrote = yield* player.write(chunk.data).pipe(
+              Effect.as(true),
+              Effect.catchAll((e) =>
+                telemetry
+                  .captureException(e, {
                     tags: { component: "playback", event: "write" },
                     extra: {
-                      bufferSize: bufSize,
-                      bytesPerChunk,
+                      chunkBytes: chunk.data.length,
+                      chunkDurationMs: chunk.durationMs,
                       state,
                     },
-                  }).pipe(Effect.zipRight(Effect.logError(e)), Effect.as(false)),
-                ),
-              );
-              if (!wrote) return "restart" as PlaybackRunResult;
-            }
+                  })
+                  .pipe(Effect.zipRight(Effect.logError(e)), Effect.as(false)),
+              ),
+            );
+            if (!wrote) return "restart" as PlaybackRunResult;
+            yield* Metric.incrementBy(playedBytes, chunk.data.length);
 
             const now = performance.now();
-            nextWriteAt = Math.max(nextWriteAt + chunkDurationMs, now);
+            nextWriteAt = Math.max(nextWriteAt + chunk.durationMs, now);
             const sleepMs = nextWriteAt - now;
             if (sleepMs > 0) {
               yield* Effect.sleep(Duration.millis(sleepMs));
@@ -201,22 +311,18 @@ export const PlaybackServiceLive = Layer.effect(
 
         const isFirstStart = firstStart;
         yield* Effect.log(isFirstStart ? "Starting player" : "Restarting player");
-        yield* addBreadcrumb({
+        if (!isFirstStart) {
+          yield* Metric.increment(playerRestarts);
+          yield* events.publish({ type: "player", status: "restarting" });
+        }
+        yield* telemetry.addBreadcrumb({
           category: "playback",
           message: isFirstStart ? "Player starting" : "Player restarting",
           level: isFirstStart ? "info" : "warning",
         });
         firstStart = false;
 
-        const runResult = yield* Effect.try({
-          try: () =>
-            Bun.spawn(["ffplay", "-nodisp", "-autoexit", "-af", "volume=1.3", "-i", "-"], {
-              stdin: "pipe",
-              stdout: "ignore",
-              stderr: "ignore",
-            }),
-          catch: (e) => new Error(`Failed to spawn player: ${e}`),
-        }).pipe(
+        const runResult = yield* backend.spawn().pipe(
           Effect.tap((player) => Ref.set(playerRef, player)),
           Effect.flatMap((player) =>
             runLoop(player).pipe(
@@ -226,9 +332,11 @@ export const PlaybackServiceLive = Layer.effect(
             ),
           ),
           Effect.catchAll((e) =>
-            captureException(e, {
-              tags: { component: "playback", event: "spawn" },
-            }).pipe(Effect.zipRight(Effect.logError(e)), Effect.as("restart" as PlaybackRunResult)),
+            telemetry
+              .captureException(e, {
+                tags: { component: "playback", event: "spawn", backend: backend.name },
+              })
+              .pipe(Effect.zipRight(Effect.logError(e)), Effect.as("restart" as PlaybackRunResult)),
           ),
         );
 
@@ -237,10 +345,10 @@ export const PlaybackServiceLive = Layer.effect(
         const current = yield* Ref.get(stateRef);
         if (current === "stopped") break;
         if (current === "playing") {
-          yield* Ref.set(stateRef, "buffering");
+          yield* setState("buffering");
         }
 
-        yield* addBreadcrumb({
+        yield* telemetry.addBreadcrumb({
           category: "playback",
           message: "Player restart scheduled",
           level: "warning",
@@ -251,29 +359,31 @@ export const PlaybackServiceLive = Layer.effect(
 
     const start = () =>
       Effect.gen(function* () {
-        if ((yield* Ref.get(stateRef)) !== "stopped") return;
+        if ((yield* Ref.get(stateRef)) !== "stopped") return false;
 
-        yield* Ref.set(stateRef, "buffering");
+        yield* setState("buffering");
         yield* Effect.log("Starting playback service");
-        yield* addBreadcrumb({
+        yield* telemetry.addBreadcrumb({
           category: "playback",
           message: "Playback service started",
           level: "info",
         });
 
-        const fiber = yield* Effect.fork(bufferLoop);
+        // Daemons, so a start from an HTTP request outlives the request
+        const fiber = yield* Effect.forkDaemon(bufferLoop);
         yield* Ref.set(bufferFiberRef, fiber);
 
-        const playbackFiber = yield* Effect.fork(playbackLoop);
+        const playbackFiber = yield* Effect.forkDaemon(playbackLoop);
         yield* Ref.set(playbackFiberRef, playbackFiber);
+        return true;
       });
 
     const pause = () =>
       Ref.get(stateRef).pipe(
         Effect.flatMap((s) =>
           s === "playing" || s === "buffering"
-            ? Ref.set(stateRef, "paused").pipe(Effect.tap(() => Effect.log("Paused")))
-            : Effect.void,
+            ? setState("paused").pipe(Effect.zipRight(Effect.log("Paused")), Effect.as(true))
+            : Effect.succeed(false),
         ),
       );
 
@@ -281,14 +391,16 @@ export const PlaybackServiceLive = Layer.effect(
       Ref.get(stateRef).pipe(
         Effect.flatMap((s) =>
           s === "paused"
-            ? Ref.set(stateRef, "buffering").pipe(Effect.tap(() => Effect.log("Resumed")))
-            : Effect.void,
+            ? setState("buffering").pipe(Effect.zipRight(Effect.log("Resumed")), Effect.as(true))
+            : Effect.succeed(false),
         ),
       );
 
     const stop = () =>
       Effect.gen(function* () {
-        yield* Ref.set(stateRef, "stopped");
+        const from = yield* Ref.getAndSet(stateRef, "stopped");
+        if (from === "stopped") return false;
+        yield* events.publish({ type: "playback", from, to: "stopped" });
 
         const fiber = yield* Ref.get(bufferFiberRef);
         if (fiber) {
@@ -306,15 +418,18 @@ export const PlaybackServiceLive = Layer.effect(
         if (player) player.kill();
 
         yield* Effect.log("Stopped");
-        yield* addBreadcrumb({
+        yield* telemetry.addBreadcrumb({
           category: "playback",
           message: "Playback service stopped",
           level: "info",
         });
+        return true;
       });
 
     const getState = () => Ref.get(stateRef);
 
-    return { start, pause, resume, stop, getState };
+    const stateChanges = () => stateRef.changes;
+
+    return { start, pause, resume, stop, getState, stateChanges };
   }),
 );
@@ -0,0 +1,135 @@
+import { Context, Effect, Layer } from "effect";
+import { Subprocess } from "bun";
+import { promises as fs } from "fs";
+import { AppConfig } from "../config";
+
+export type PlayerBackendName = "ffplay" | "mpv" | "alsa" | "pulse" | "file" | "null";
+
+export interface PlayerExit {
+  code: number | null;
+  reason: string;
+}
+
+export interface PlayerHandle {
+  readonly pid: number | null;
+  readonly write: (chunk: Uint8Array) => Effect.Effect<void, Error>;
+  // null while the player is still running
+  readonly exit: () => PlayerExit | null;
+  readonly kill: () => void;
+}
+
+export class PlayerBackend extends Context.Tag("PlayerBackend")<
+  PlayerBackend,
+  {
+    readonly name: PlayerBackendName;
+    readonly spawn: () => Effect.Effect<PlayerHandle, Error>;
+  }
+>() {}
+
+type PlayerProcess = Subprocess<"pipe", "ignore", "ignore">;
+
+// Feeds MP3 on stdin to any player that reads it from "-"
+const spawnProcess = (command: string[]) =>
+  Effect.try({
+    try: (): PlayerHandle => {
+      const proc: PlayerProcess = Bun.spawn(command, {
+        stdin: "pipe",
+        stdout: "ignore",
+        stderr: "ignore",
+      });
+
+      return {
+        pid: proc.pid,
+        write: (chunk) =>
+          Effect.gen(function* () {
+            yield* Effect.try({
+              try: () => proc.stdin.write(chunk),
+              catch: (e) => new Error(`Player write failed: ${e}`),
+            });
+            yield* Effect.tryPromise({
+              try: () => Promise.resolve(proc.stdin.flush()),
+              catch: (e) => new Error(`Player flush failed: ${e}`),
+            });
+          }),
+        exit: () => {
+          if (proc.signalCode) return { code: null, reason: `killed by ${proc.signalCode}` };
+          if (proc.exitCode !== null) {
+            return { code: proc.exitCode, reason: `exited with code ${proc.exitCode}` };
+          }
+          return null;
+        },
+        kill: () => proc.kill(),
+      };
+    },
+    catch: (e) => new Error(`Failed to spawn ${command[0]}: ${e}`),
+  });
+
+// Appends to the file so restarts don't truncate what was already written
+const openFileSink = (path: string) =>
+  Effect.tryPromise({
+    try: async (): Promise<PlayerHandle> => {
+      const handle = await fs.open(path, "a");
+      let exit: PlayerExit | null = null;
+
+      return {
+        pid: null,
+        write: (chunk) =>
+          Effect.tryPromise({
+            try: () => handle.write(chunk),
+            catch: (e) => {
+              exit = { code: 1, reason: `write to ${path} failed: ${e}` };
+              return new Error(`File sink write failed: ${e}`);
+            },
+          }).pipe(Effect.asVoid),
+        exit: () => exit,
+        kill: () => {
+          if (exit) return;
+          exit = { code: 0, reason: "closed" };
+          void handle.close().catch(() => {});
+        },
+      };
+    },
+    catch: (e) => new Error(`Failed to open ${path}: ${e}`),
+  });
+
+const openNullSink = () =>
+  Effect.sync((): PlayerHandle => {
+    let exit: PlayerExit | null = null;
+    return {
+      pid: null,
+      write: () => Effect.void,
+      exit: () => exit,
+      kill: () => {
+        exit = { code: 0, reason: "closed" };
+      },
+    };
+  });
+
+export const PlayerBackendLive = Layer.effect(
+  PlayerBackend,
+  Effect.gen(function* () {
+    const name = yield* AppConfig.PlayerBackend;
+    const device = yield* AppConfig.PlayerDevice;
+    const file = yield* AppConfig.PlayerFile;
+
+    const spawn = (): Effect.Effect<PlayerHandle, Error> => {
+      switch (name) {
+        case "ffplay":
+          return spawnProcess(["ffplay", "-nodisp", "-autoexit", "-i", "-"]);
+        case "mpv":
+          return spawnProcess(["mpv", "--no-video", "--no-terminal", "-"]);
+        case "alsa":
+        case "pulse":
+          return spawnProcess(["ffmpeg", "-loglevel", "error", "-i", "-", "-f", name, device]);
+        case "file":
+          return openFileSink(file);
+        case "null":
+          return openNullSink();
+      }
+    };
+
+    yield* Effect.log(`Player backend: ${name}`);
+
+    return { name, spawn };
+  }),
+);
@@ -1,8 +1,24 @@
-import { Context, Effect, Layer, Duration, Fiber, Ref } from "effect";
+import { Context, Cron, Effect, Layer, Duration, Fiber, Metric, Option, Ref, Stream } from "effect";
 import { BufferService } from "./BufferService";
+import { ConfigService, ReloadableSettings } from "./ConfigService";
+import { EventService } from "./EventService";
 import { PlaybackService } from "./PlaybackService";
+import { Telemetry } from "./Telemetry";
 import { AppConfig } from "../config";
-import { nextHourInfo } from "../utils";
+import { rebuildDuration, rebuilds } from "../utils/metrics";
+import { isListeningTime, nextTransitions, ScheduleTransition } from "../utils/schedule";
+
+export interface ListeningStatus {
+  quietHours: boolean;
+  nextTransitions: ScheduleTransition[];
+}
+
+export interface RebuildReport {
+  reason: string;
+  startedAt: Date;
+  finishedAt: Date | null;
+  outcome: "running" | "complete" | "skipped" | "cancelled";
+}
 
 export class SchedulerService extends Context.Tag("SchedulerService")<
   SchedulerService,
@@ -10,54 +26,119 @@ export class SchedulerService extends Context.Tag("SchedulerService")<
     readonly start: () => Effect.Effect<void>;
     readonly stop: () => Effect.Effect<void>;
     readonly getNextRebuildTime: () => Effect.Effect<Date>;
-    readonly rebuildNow: () => Effect.Effect<boolean>;
+    readonly rebuildNow: (reason: string) => Effect.Effect<boolean>;
+    readonly getLastRebuild: () => Effect.Effect<RebuildReport | null>;
+    readonly getListeningStatus: () => Effect.Effect<ListeningStatus>;
   }
 >() {}
 
-export const SchedulerServiceLive = Layer.effect(
+export const SchedulerServiceLive = Layer.scoped(
   SchedulerService,
   Effect.gen(function* () {
     const buffer = yield* BufferService;
     const playback = yield* PlaybackService;
-    const rebuildHour = yield* AppConfig.RebuildHour;
-    const refillTimeout = Duration.minutes(5);
+    const events = yield* EventService;
+    const telemetry = yield* Telemetry;
+    const config = yield* ConfigService;
+    const timezone = yield* AppConfig.Timezone;
+
+    // The rebuild and listening schedules, which change when the config is reloaded
+    const planFor = (settings: ReloadableSettings) => ({
+      rebuildCron: Option.match(settings.RebuildCron, {
+        onNone: () =>
+          Cron.make({
+            minutes: [0],
+            hours: [settings.RebuildHour],
+            days: [],
+            months: [],
+            weekdays: [],
+            tz: timezone,
+          }),
+        onSome: (expr) => Cron.unsafeParse(expr, timezone),
+      }),
+      scheduleLabel: Option.getOrElse(
+        settings.RebuildCron,
+        () => `${settings.RebuildHour}:00 daily`,
+      ),
+      rebuildPolicy: settings.RebuildPolicy,
+      skipWindow: settings.RebuildSkipWindow,
+      schedule: settings.ListeningSchedule,
+    });
+    const planRef = yield* Ref.make(planFor(yield* config.settings()));
 
     const fiberRef = yield* Ref.make<Fiber.Fiber<void, unknown> | null>(null);
+    const scheduleFiberRef = yield* Ref.make<Fiber.Fiber<void, unknown> | null>(null);
     const rebuildFiberRef = yield* Ref.make<Fiber.Fiber<void, unknown> | null>(null);
     const rebuildLockRef = yield* Ref.make(false);
+    const lastRebuildRef = yield* Ref.make<RebuildReport | null>(null);
 
-    const performRebuild = Effect.gen(function* () {
-      yield* Effect.log(`Rebuilding buffer at ${rebuildHour}:00`);
+    const rebuildOutcome = (outcome: RebuildReport["outcome"]) =>
+      Metric.tagged(rebuilds, "outcome", outcome);
 
-      yield* playback.pause();
-      yield* buffer.clear();
-      yield* Effect.log("Waiting for buffer to refill...");
+    const performRebuild = Effect.fn("scheduler.performRebuild")(function* (reason: string) {
+      yield* Effect.log(`Rebuilding buffer (${reason})`);
+      yield* telemetry.addBreadcrumb({
+        category: "scheduler",
+        message: "Buffer rebuild started",
+        level: "info",
+        data: { reason },
+      });
+      const startedAt = new Date();
+      yield* Ref.set(lastRebuildRef, {
+        reason,
+        startedAt,
+        finishedAt: null,
+        outcome: "running",
+      });
+      yield* events.publish({ type: "rebuild", status: "started", reason });
 
-      const refillResult = yield* Effect.raceFirst(
-        buffer.waitForTarget().pipe(Effect.as<"filled">("filled")),
-        Effect.sleep(refillTimeout).pipe(Effect.as<"timeout">("timeout")),
-      );
+      const finish = (outcome: Exclude<RebuildReport["outcome"], "running">) =>
+        Metric.increment(rebuildOutcome(outcome)).pipe(
+          Effect.zipRight(events.publish({ type: "rebuild", status: "finished", reason, outcome })),
+          Effect.zipRight(
+            Ref.update(
+              lastRebuildRef,
+              (report): RebuildReport | null =>
+                report && { ...report, finishedAt: new Date(), outcome },
+            ),
+          ),
+        );
 
-      if (refillResult === "timeout") {
-        yield* Effect.log("Rebuild timed out; resuming with partial buffer");
-      } else {
-        yield* Effect.log("Buffer rebuild complete");
+      // Playback keeps draining the current buffer while a fresh one fills, and switches
+      // over once it's used up, so the rebuild is silent
+      if (!(yield* buffer.startRebuild())) {
+        yield* Effect.log("Buffer is already being rebuilt; skipping rebuild");
+        return yield* finish("skipped");
       }
+      yield* Effect.log("Filling a fresh buffer; playback continues from the current one");
+      yield* buffer
+        .waitForCutover()
+        .pipe(
+          Effect.onInterrupt(() =>
+            buffer.cancelRebuild().pipe(Effect.zipRight(finish("cancelled"))),
+          ),
+        );
 
-      yield* playback.resume();
+      yield* Effect.log("Buffer rebuild complete");
+      yield* Metric.update(rebuildDuration, (Date.now() - startedAt.getTime()) / 1000);
+      yield* finish("complete");
     });
 
-    const rebuildNow = () => {
-      const runRebuild = performRebuild.pipe(
+    const rebuildNow = (reason: string) => {
+      const runRebuild = performRebuild(reason).pipe(
+        Effect.withLogSpan("rebuild"),
+        Effect.annotateLogs({ rebuildReason: reason }),
         Effect.ensuring(Ref.set(rebuildLockRef, false)),
         Effect.ensuring(Ref.set(rebuildFiberRef, null)),
       );
 
-      return Effect.uninterruptible(
+      // The fork inherits interruptibility, so restore it; otherwise stop() couldn't cancel
+      // a rebuild that is waiting for the cutover
+      return Effect.uninterruptibleMask((restore) =>
         Ref.modify(rebuildLockRef, (locked) => (locked ? [false, locked] : [true, true])).pipe(
           Effect.flatMap((acquired) =>
             acquired
-              ? Effect.forkDaemon(runRebuild).pipe(
+              ? Effect.forkDaemon(restore(runRebuild)).pipe(
                   Effect.tap((fiber) => Ref.set(rebuildFiberRef, fiber)),
                   Effect.as(true),
                 )
@@ -67,12 +148,87 @@ export const SchedulerServiceLive = Layer.effect(
       );
     };
 
+    // Why the REBUILD_POLICY says to skip this rebuild, or null to go ahead
+    const skipReason = Effect.gen(function* () {
+      const { rebuildPolicy, skipWindow } = yield* Ref.get(planRef);
+      if (rebuildPolicy === "always") return null;
+
+      const { healthySince, lastDiscontinuity } = yield* buffer.getStability();
+      const cutoff = Date.now() - Duration.toMillis(skipWindow);
+      if (!healthySince || healthySince.getTime() > cutoff) return null;
+      if (lastDiscontinuity && lastDiscontinuity.getTime() > cutoff) return null;
+
+      return `buffer healthy with no discontinuity for ${Duration.format(skipWindow)}`;
+    });
+
+    const skipped = (reason: string) =>
+      Metric.increment(rebuildOutcome("skipped")).pipe(
+        Effect.zipRight(
+          events.publish({ type: "rebuild", status: "finished", reason, outcome: "skipped" }),
+        ),
+      );
+
     const loop = Effect.gen(function* () {
       while (true) {
-        const { ms } = yield* nextHourInfo(rebuildHour);
+        const { rebuildCron, scheduleLabel } = yield* Ref.get(planRef);
+        const at = Cron.next(rebuildCron);
+        const ms = at.getTime() - Date.now();
         yield* Effect.log(`Next rebuild in ${Math.round(ms / 3600000)} hours`);
         yield* Effect.sleep(Duration.millis(ms));
-        yield* rebuildNow();
+
+        if (yield* Ref.get(rebuildLockRef)) {
+          yield* Effect.log("Previous rebuild still running; skipping scheduled rebuild");
+          yield* skipped(`scheduled (${scheduleLabel}); skipped: previous rebuild still running`);
+          continue;
+        }
+
+        const skip = yield* skipReason;
+        if (skip) {
+          yield* Effect.log(`Skipping scheduled rebuild: ${skip}`);
+          yield* skipped(`scheduled (${scheduleLabel}); skipped: ${skip}`);
+          yield* Ref.set(lastRebuildRef, {
+            reason: `scheduled (${scheduleLabel}); skipped: ${skip}`,
+            startedAt: new Date(),
+            finishedAt: new Date(),
+            outcome: "skipped",
+          });
+          continue;
+        }
+
+        yield* rebuildNow(`scheduled (${scheduleLabel})`);
+      }
+    });
+
+    const setQuiet = (quiet: boolean) =>
+      Effect.gen(function* () {
+        if (quiet) {
+          yield* Effect.log("Quiet hours started; buffering continues");
+          yield* playback.pause();
+          return;
+        }
+
+        yield* Effect.log("Listening hours started");
+        yield* playback.resume();
+      });
+
+    // Pauses and resumes playback at the edges of the LISTENING_SCHEDULE windows
+    const scheduleLoop = Effect.gen(function* () {
+      const { schedule } = yield* Ref.get(planRef);
+      if (schedule.length === 0) return;
+
+      if (!isListeningTime(schedule, timezone, new Date())) {
+        yield* setQuiet(true);
+      }
+
+      while (true) {
+        const [next] = nextTransitions(schedule, timezone, new Date(), 1);
+        if (!next) return;
+
+        yield* Effect.log(
+          `Next schedule change: ${next.to === "play" ? "listening" : "quiet"} at ${next.at.toISOString()}`,
+        );
+        yield* Effect.sleep(Duration.millis(Math.max(0, next.at.getTime() - Date.now())));
+        yield* setQuiet(next.to === "quiet");
       }
     });
 
@@ -81,6 +237,9 @@ export const SchedulerServiceLive = Layer.effect(
         if (yield* Ref.get(fiberRef)) return;
         const fiber = yield* Effect.fork(loop);
         yield* Ref.set(fiberRef, fiber);
+
+        const scheduleFiber = yield* Effect.fork(scheduleLoop);
+        yield* Ref.set(scheduleFiberRef, scheduleFiber);
       });
 
     const stop = () =>
@@ -91,6 +250,12 @@ export const SchedulerServiceLive = Layer.effect(
           yield* Ref.set(fiberRef, null);
         }
 
+        const scheduleFiber = yield* Ref.get(scheduleFiberRef);
+        if (scheduleFiber) {
+          yield* Fiber.interrupt(scheduleFiber);
+          yield* Ref.set(scheduleFiberRef, null);
+        }
+
         const rebuildFiber = yield* Ref.get(rebuildFiberRef);
         if (rebuildFiber) {
           yield* Fiber.interrupt(rebuildFiber);
@@ -100,8 +265,60 @@ export const SchedulerServiceLive = Layer.effect(
         yield* Ref.set(rebuildLockRef, false);
       });
 
-    const getNextRebuildTime = () => nextHourInfo(rebuildHour).pipe(Effect.map((info) => info.at));
+    // Restarts whichever loops are running and affected, so they wait for the new times
+    const applySettings = (settings: ReloadableSettings) =>
+      Effect.gen(function* () {
+        const previous = yield* Ref.getAndSet(planRef, planFor(settings));
+        const next = yield* Ref.get(planRef);
 
-    return { start, stop, getNextRebuildTime, rebuildNow };
+        const loopFiber = yield* Ref.get(fiberRef);
+        if (loopFiber && next.scheduleLabel !== previous.scheduleLabel) {
+          yield* Fiber.interrupt(loopFiber);
+          yield* Ref.set(fiberRef, yield* Effect.fork(loop));
+        }
+
+        const scheduleFiber = yield* Ref.get(scheduleFiberRef);
+        if (scheduleFiber && next.schedule !== previous.schedule) {
+          yield* Fiber.interrupt(scheduleFiber);
+          // The new loop pauses if it's quiet now, but won't resume what the old one paused
+          const now = new Date();
+          if (
+            !isListeningTime(previous.schedule, timezone, now) &&
+            isListeningTime(next.schedule, timezone, now)
+          ) {
+            yield* setQuiet(false);
+          }
+          yield* Ref.set(scheduleFiberRef, yield* Effect.fork(scheduleLoop));
+        }
+      });
+
+    yield* Effect.forkScoped(
+      config.changes().pipe(Stream.drop(1), Stream.runForEach(applySettings)),
+    );
+
+    const getNextRebuildTime = () =>
+      Ref.get(planRef).pipe(Effect.map(({ rebuildCron }) => Cron.next(rebuildCron)));
+
+    const getLastRebuild = () => Ref.get(lastRebuildRef);
+
+    const getListeningStatus = () =>
+      Ref.get(planRef).pipe(
+        Effect.map(({ schedule }) => {
+          const now = new Date();
+          return {
+            quietHours: !isListeningTime(schedule, timezone, now),
+            nextTransitions: nextTransitions(schedule, timezone, now, 2),
+          };
+        }),
+      );
+
+    return {
+      start,
+      stop,
+      getNextRebuildTime,
+      rebuildNow,
+      getLastRebuild,
+      getListeningStatus,
+    };
   }),
 );
@@ -0,0 +1,184 @@
+import { Context, Duration, Effect, Layer, Metric, Ref, Stream, SubscriptionRef } from "effect";
+import { AppConfig } from "../config";
+import { streamLevel } from "../utils/metrics";
+
+export interface SilenceStatus {
+  // Loudness of the last second of decoded audio in dBFS; null before any was decoded
+  levelDb: number | null;
+  // When the level last dropped below SILENCE_THRESHOLD_DB, while it stays there
+  silentSince: Date | null;
+  // Silent for at least SILENCE_DURATION
+  silent: boolean;
+}
+
+export class SilenceDetector extends Context.Tag("SilenceDetector")<
+  SilenceDetector,
+  {
+    // Hands ingested MP3 bytes to the decoder
+    readonly feed: (chunk: Uint8Array) => Effect.Effect<void>;
+    readonly getStatus: () => Effect.Effect<SilenceStatus>;
+    // Fails once the audio has been silent for SILENCE_DURATION, counted from no earlier
+    // than `since`; never completes otherwise
+    readonly awaitSilence: (since: number) => Effect.Effect<never, SilenceError>;
+  }
+>() {}
+
+export class SilenceError extends Error {
+  constructor(readonly silentMs: number) {
+    super(`Silent for ${Math.round(silentMs / 1000)}s`);
+  }
+}
+
+interface LevelState {
+  levelDb: number | null;
+  silentSince: number | null;
+  // When audio was last decoded; the status goes stale once the stream stops
+  measuredAt: number;
+}
+
+type DecoderProcess = Bun.Subprocess<"pipe", "pipe", "ignore">;
+
+// Mono 8kHz is plenty to measure loudness, and cheap to decode
+const sampleRate = 8000;
+const windowSamples = sampleRate;
+
+const rmsDb = (samples: Int16Array) => {
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  const rms = Math.sqrt(sum / samples.length) / 32768;
+  return rms === 0 ? -Infinity : 20 * Math.log10(rms);
+};
+
+// Splits 16-bit PCM into one-second windows, carrying over what's left of each chunk
+const pcmWindows = (stdout: ReadableStream<Uint8Array>) =>
+  Stream.fromReadableStream(
+    () => stdout,
+    (e) => new Error(`Silence decoder read failed: ${e}`),
+  ).pipe(
+    Stream.mapAccum(new Uint8Array(0), (pending, data): [Uint8Array, Int16Array[]] => {
+      const bytes = new Uint8Array(pending.length + data.length);
+      bytes.set(pending);
+      bytes.set(data, pending.length);
+      const windows: Int16Array[] = [];
+      let offset = 0;
+      for (; offset + windowSamples * 2 <= bytes.length; offset += windowSamples * 2) {
+        windows.push(new Int16Array(bytes.slice(offset, offset + windowSamples * 2).buffer));
+      }
+      return [bytes.slice(offset), windows];
+    }),
+    Stream.flattenIterables,
+  );
+
+export const SilenceDetectorLive = Layer.scoped(
+  SilenceDetector,
+  Effect.gen(function* () {
+    const enabled = yield* AppConfig.SilenceDetection;
+    const thresholdDb = yield* AppConfig.SilenceThresholdDb;
+    const durationMs = Duration.toMillis(yield* AppConfig.SilenceDuration);
+    const ffmpegPath = yield* AppConfig.FfmpegPath;
+    // No decoded audio for this long means nothing is being measured
+    const staleAfterMs = 10000;
+
+    const stateRef = yield* SubscriptionRef.make<LevelState>({
+      levelDb: null,
+      silentSince: null,
+      measuredAt: 0,
+    });
+
+    const measure = (samples: Int16Array) => {
+      const levelDb = Math.max(rmsDb(samples), -120);
+      const now = Date.now();
+      return SubscriptionRef.update(stateRef, (state) => ({
+        levelDb,
+        silentSince: levelDb < thresholdDb ? (state.silentSince ?? now) : null,
+        measuredAt: now,
+      })).pipe(Effect.zipRight(Metric.set(streamLevel, levelDb)));
+    };
+
+    // The running decoder, which ingested audio is written to
+    const decoderRef = yield* Ref.make<DecoderProcess | null>(null);
+
+    // Decodes with ffmpeg to PCM on stdout until it exits
+    const runDecoder = Effect.acquireRelease(
+      Effect.try({
+        try: (): DecoderProcess =>
+          Bun.spawn(
+            [
+              ffmpegPath,
+              ...["-hide_banner", "-loglevel", "error", "-f", "mp3", "-i", "pipe:0"],
+              ...["-ac", "1", "-ar", String(sampleRate), "-f", "s16le", "pipe:1"],
+            ],
+            { stdin: "pipe", stdout: "pipe", stderr: "ignore" },
+          ),
+        catch: (e) => new Error(`can't run ${ffmpegPath}: ${e}`),
+      }).pipe(Effect.orDie),
+      (proc) => Ref.set(decoderRef, null).pipe(Effect.zipRight(Effect.sync(() => proc.kill()))),
+    ).pipe(
+      Effect.tap((proc) => Ref.set(decoderRef, proc)),
+      Effect.flatMap((proc) => pcmWindows(proc.stdout).pipe(Stream.runForEach(measure))),
+      Effect.scoped,
+    );
+
+    if (enabled) {
+      // Restarted a few seconds after it exits; not at all if ffmpeg can't be started
+      yield* Effect.forkScoped(
+        runDecoder.pipe(
+          Effect.catchAll((e) => Effect.logWarning(`Silence decoder stopped: ${e.message}`)),
+          Effect.zipRight(Effect.sleep(Duration.seconds(5))),
+          Effect.forever,
+          Effect.catchAllDefect((defect) => Effect.logWarning(`Silence detection off: ${defect}`)),
+        ),
+      );
+    }
+
+    const feed = (chunk: Uint8Array) =>
+      Ref.get(decoderRef).pipe(
+        Effect.flatMap((proc) =>
+          proc
+            ? Effect.try(() => {
+                proc.stdin.write(chunk);
+                void Promise.resolve(proc.stdin.flush()).catch(() => {});
+              })
+            : Effect.void,
+        ),
+        Effect.catchAll((e) => Effect.logWarning(`Silence decoder write failed: ${e}`)),
+      );
+
+    const getStatus = () =>
+      SubscriptionRef.get(stateRef).pipe(
+        Effect.map((state): SilenceStatus => {
+          const now = Date.now();
+          const fresh = now - state.measuredAt < staleAfterMs;
+          const silentSince = fresh ? state.silentSince : null;
+          return {
+            levelDb: state.levelDb === null ? null : Math.round(state.levelDb * 10) / 10,
+            silentSince: silentSince === null ? null : new Date(silentSince),
+            silent: silentSince !== null && now - silentSince >= durationMs,
+          };
+        }),
+      );
+
+    // Restarts the timer whenever silence starts or ends
+    const awaitSilence = (since: number) =>
+      stateRef.changes.pipe(
+        Stream.map((state) => state.silentSince),
+        Stream.changes,
+        Stream.flatMap(
+          (silentSince) => {
+            if (silentSince === null) return Stream.never;
+            const from = Math.max(silentSince, since);
+            return Stream.fromEffect(
+              Effect.sleep(Duration.millis(Math.max(0, from + durationMs - Date.now()))).pipe(
+                Effect.zipRight(Effect.failSync(() => new SilenceError(Date.now() - silentSince))),
+              ),
+            );
+          },
+          { switch: true },
+        ),
+        Stream.runDrain,
+        Effect.zipRight(Effect.never),
+      );
+
+    return { feed, getStatus, awaitSilence };
+  }),
+);
@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { Chunk, ConfigProvider, Duration, Effect, Layer, Logger, LogLevel, Stream } from "effect";
+import { EventService, EventServiceLive } from "./EventService";
+import { SilenceDetectorLive } from "./SilenceDetector";
+import { StreamService, StreamServiceLive } from "./StreamService";
+
+let server: ReturnType<typeof Bun.serve>;
+
+// The primary is down; the mirror sends a little audio every 100ms until it's dropped
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch: (req) => {
+      if (new URL(req.url).pathname === "/primary") return new Response(null, { status: 500 });
+      return new Response(
+        new ReadableStream({
+          pull: async (controller) => {
+            await Bun.sleep(100);
+            controller.enqueue(new Uint8Array(1024));
+          },
+        }),
+        { headers: { "Content-Type": "audio/mpeg" } },
+      );
+    },
+  });
+});
+
+afterAll(() => server.stop(true));
+
+const run = <A>(effect: Effect.Effect<A, Error, StreamService | EventService>) => {
+  const config = ConfigProvider.fromMap(
+    new Map([
+      ["STREAM_URL", `${server.url}primary,${server.url}mirror`],
+      ["MIRROR_FAILURE_THRESHOLD", "1"],
+      ["MIRROR_PRIMARY_COOLDOWN", "1 second"],
+      ["SILENCE_DETECTION", "false"],
+      ["STALL_RATIO", "0"],
+    ]),
+  );
+  const layer = StreamServiceLive.pipe(
+    Layer.provideMerge(Layer.merge(EventServiceLive, SilenceDetectorLive)),
+  );
+
+  return Effect.runPromise(
+    effect.pipe(
+      Effect.provide(layer),
+      Effect.withConfigProvider(config),
+      Logger.withMinimumLogLevel(LogLevel.None),
+    ),
+  );
+};
+
+test("leaving a mirror when the primary cooldown runs out isn't a disconnect", async () => {
+  const published = await run(
+    Effect.gen(function* () {
+      const stream = yield* StreamService;
+      const events = yield* EventService;
+
+      // Fails over to the mirror, which is then cut off after the cooldown
+      yield* Effect.ignore(stream.connect());
+      yield* stream.connect().pipe(
+        Effect.flatMap(Stream.runDrain),
+        Effect.timeoutFail({
+          duration: Duration.seconds(3),
+          onTimeout: () => new Error("The mirror wasn't dropped"),
+        }),
+      );
+
+      // Then goes back to the primary
+      yield* Effect.ignore(stream.connect());
+
+      return yield* events
+        .subscribe(0)
+        .pipe(
+          Stream.interruptAfter(Duration.millis(50)),
+          Stream.runCollect,
+          Effect.map(Chunk.toArray),
+        );
+    }),
+  );
+
+  expect(published.map((event) => event.type === "stream" && event.status)).toEqual([
+    "failed",
+    "connected",
+    "switching",
+    "failed",
+  ]);
+  expect(published[2]).toMatchObject({
+    url: `${server.url}mirror`,
+    to: `${server.url}primary`,
+  });
+  expect(published[3]).toMatchObject({ url: `${server.url}primary` });
+}, 10000);
@@ -1,22 +1,190 @@
-import { Context, Effect, Layer, Stream, Option, Duration } from "effect";
+import { Context, Effect, Layer, Metric, Stream, Option, Duration, Ref } from "effect";
+import { EventService } from "./EventService";
+import { SilenceDetector, SilenceError } from "./SilenceDetector";
 import { AppConfig } from "../config";
+import { createIcyParser, IcyPart } from "../utils/icy";
+import {
+  streamConnectAttempts,
+  streamConnectFailures,
+  streamReadTimeouts,
+  streamSilences,
+  streamStalls,
+} from "../utils/metrics";
+import { measureBitrateKbps } from "../utils/mp3";
+import { createThroughputMeter } from "../utils/throughput";
+
+export type StreamPart =
+  | IcyPart
+  | { readonly _tag: "Bitrate"; readonly kbps: number; readonly source: BitrateSource };
+
+export type BitrateSource = "frames" | "icy";
+
+export interface StreamBitrate {
+  detectedKbps: number | null;
+  detectedFrom: BitrateSource | null;
+  measuredKbps: number | null;
+  // Over the last few seconds, which is what stall detection looks at
+  recentKbps: number | null;
+}
+
+export interface MirrorStatus {
+  url: string;
+  active: boolean;
+  failures: number;
+}
+
+export interface StreamStatus {
+  activeUrl: string;
+  consecutiveFailures: number;
+  // Connections dropped for being too slow
+  stalls: number;
+  mirrors: MirrorStatus[];
+}
+
+class StallError extends Error {
+  constructor(kbps: number, expectedKbps: number, durationMs: number) {
+    super(
+      `Stalled at ${Math.round(kbps)}kbps for ${Math.round(durationMs / 1000)}s; expected ${expectedKbps}kbps`,
+    );
+  }
+}
+
+interface MirrorState {
+  active: number;
+  consecutiveFailures: number;
+  switchedAt: number;
+  failures: number[];
+}
 
 export class StreamService extends Context.Tag("StreamService")<
   StreamService,
   {
-    readonly connect: () => Effect.Effect<Stream.Stream<Uint8Array, Error>, Error>;
+    readonly connect: () => Effect.Effect<Stream.Stream<StreamPart, Error>, Error>;
+    readonly getStatus: () => Effect.Effect<StreamStatus>;
+    readonly getBitrate: () => Effect.Effect<StreamBitrate>;
   }
 >() {}
 
 export const StreamServiceLive = Layer.effect(
   StreamService,
   Effect.gen(function* () {
-    const streamUrl = yield* AppConfig.StreamUrl;
+    const events = yield* EventService;
+    const silence = yield* SilenceDetector;
+    const streamUrls = yield* AppConfig.StreamUrls;
+    const configuredKbps = (yield* AppConfig.BitrateKBps) * 8;
+    const stallRatio = yield* AppConfig.StallRatio;
+    const stallMs = Duration.toMillis(yield* AppConfig.StallDuration);
+    const failureThreshold = yield* AppConfig.MirrorFailureThreshold;
+    const primaryCooldown = yield* AppConfig.MirrorPrimaryCooldown;
     const streamConnectTimeoutMs = 15000;
     const streamReadTimeout = Duration.seconds(15);
+    // A connection that delivers audio this long counts as recovered
+    const stableAfterMs = 60000;
+    // Audio inspected at the start of each connection to find the bitrate
+    const sniffMinBytes = 16 * 1024;
+    const sniffMaxBytes = 64 * 1024;
+    const throughputWindowMs = 60000;
+    const stallWindowMs = 10000;
+    const stallCheckInterval = Duration.seconds(1);
+
+    if (streamUrls.length === 0) {
+      return yield* Effect.dieMessage("STREAM_URL must contain at least one URL");
+    }
+
+    const mirrorRef = yield* Ref.make<MirrorState>({
+      active: 0,
+      consecutiveFailures: 0,
+      switchedAt: Date.now(),
+      failures: streamUrls.map(() => 0),
+    });
 
-    const connect = (): Effect.Effect<Stream.Stream<Uint8Array, Error>, Error> =>
+    const bitrateRef = yield* Ref.make<Omit<StreamBitrate, "measuredKbps" | "recentKbps">>({
+      detectedKbps: null,
+      detectedFrom: null,
+    });
+    const meter = createThroughputMeter(throughputWindowMs);
+    const stallMeter = createThroughputMeter(stallWindowMs);
+    const stallsRef = yield* Ref.make(0);
+
+    // Fails once the connection has been below STALL_RATIO of the bitrate for STALL_DURATION,
+    // judged over the last stallWindowMs; a connection that stops entirely times out instead
+    const awaitStall = Effect.gen(function* () {
+      if (stallRatio === 0) return yield* Effect.never;
+      let slowSince: number | null = null;
+      while (true) {
+        yield* Effect.sleep(stallCheckInterval);
+        const now = Date.now();
+        if (stallMeter.elapsedMs(now) < stallWindowMs) continue;
+
+        const { detectedKbps } = yield* Ref.get(bitrateRef);
+        const expectedKbps = detectedKbps ?? configuredKbps;
+        const kbps = (stallMeter.bytesPerSecond(now) * 8) / 1000;
+        if (kbps >= expectedKbps * stallRatio) {
+          slowSince = null;
+          continue;
+        }
+
+        slowSince ??= now;
+        if (now - slowSince >= stallMs) {
+          return yield* Effect.fail(new StallError(kbps, expectedKbps, now - slowSince));
+        }
+      }
+    });
+
+    const switchTo = (state: MirrorState, active: number): MirrorState => ({
+      ...state,
+      active,
+      consecutiveFailures: 0,
+      switchedAt: Date.now(),
+    });
+
+    const recordFailure = (index: number) =>
+      Ref.modify(mirrorRef, (state): [number | null, MirrorState] => {
+        const failures = state.failures.map((count, i) => (i === index ? count + 1 : count));
+        if (index !== state.active) return [null, { ...state, failures }];
+
+        const consecutiveFailures = state.consecutiveFailures + 1;
+        if (consecutiveFailures < failureThreshold || streamUrls.length < 2) {
+          return [null, { ...state, failures, consecutiveFailures }];
+        }
+
+        const next = (state.active + 1) % streamUrls.length;
+        return [next, switchTo({ ...state, failures }, next)];
+      }).pipe(
+        Effect.flatMap((next) =>
+          next === null
+            ? Effect.void
+            : Effect.logWarning(`Switching to mirror ${next + 1}/${streamUrls.length}`),
+        ),
+      );
+
+    const recordRecovery = (index: number) =>
+      Ref.update(mirrorRef, (state) =>
+        state.active === index && state.consecutiveFailures > 0
+          ? { ...state, consecutiveFailures: 0 }
+          : state,
+      );
+
+    // Picks the mirror to use, falling back to the primary once the cooldown has passed
+    const selectMirror = Ref.modify(mirrorRef, (state): [[number, boolean], MirrorState] => {
+      const cooledDown = Date.now() - state.switchedAt >= Duration.toMillis(primaryCooldown);
+      if (state.active !== 0 && cooledDown) {
+        return [[0, true], switchTo(state, 0)];
+      }
+      return [[state.active, false], state];
+    }).pipe(
+      Effect.tap(([, returned]) =>
+        returned ? Effect.log("Mirror cooldown elapsed; returning to primary stream") : Effect.void,
+      ),
+      Effect.map(([index]) => index),
+    );
+
+    const connectTo = (
+      index: number,
+      streamUrl: string,
+    ): Effect.Effect<Stream.Stream<StreamPart, Error>, Error> =>
       Effect.gen(function* () {
+        yield* Metric.increment(streamConnectAttempts);
         const controller = new AbortController();
         const timeout = setTimeout(() => controller.abort(), streamConnectTimeoutMs);
         const response = yield* Effect.tryPromise({
@@ -24,7 +192,7 @@ export const StreamServiceLive = Layer.effect(
             try {
               return await fetch(streamUrl, {
                 signal: controller.signal,
-                headers: { "User-Agent": "LibVLC/3.0.18" },
+                headers: { "User-Agent": "LibVLC/3.0.18", "Icy-MetaData": "1" },
               });
             } finally {
               clearTimeout(timeout);
@@ -38,6 +206,43 @@ export const StreamServiceLive = Layer.effect(
           return yield* Effect.fail(new Error(`Stream error: ${response.status}`));
         }
 
+        yield* events.publish({ type: "stream", status: "connected", url: streamUrl });
+
+        const metaint = Number.parseInt(response.headers.get("icy-metaint") ?? "", 10);
+        const parse =
+          metaint > 0
+            ? createIcyParser(metaint)
+            : (data: Uint8Array): StreamPart[] => [{ _tag: "Audio", data }];
+
+        const icyBitrate = Number.parseInt(response.headers.get("icy-br") ?? "", 10);
+        let sniffed: Uint8Array | null = new Uint8Array(0);
+
+        // Prefer the bitrate in the frame headers; fall back to icy-br for streams we can't parse
+        const detectBitrate = (part: StreamPart): StreamPart[] => {
+          if (part._tag !== "Audio") return [part];
+          meter.record(part.data.length);
+          stallMeter.record(part.data.length);
+          if (!sniffed) return [part];
+
+          const next: Uint8Array = new Uint8Array(sniffed.length + part.data.length);
+          next.set(sniffed);
+          next.set(part.data, sniffed.length);
+          sniffed = next;
+          if (sniffed.length < sniffMinBytes) return [part];
+
+          const kbps = measureBitrateKbps(sniffed);
+          if (kbps !== null) {
+            sniffed = null;
+            return [{ _tag: "Bitrate", kbps, source: "frames" }, part];
+          }
+
+          if (sniffed.length >= sniffMaxBytes) {
+            sniffed = null;
+            if (icyBitrate > 0) return [{ _tag: "Bitrate", kbps: icyBitrate, source: "icy" }, part];
+          }
+          return [part];
+        };
+
         const reader = response.body.getReader();
         const cleanup = Effect.sync(() => {
           controller.abort();
@@ -49,7 +254,21 @@ export const StreamServiceLive = Layer.effect(
           }
         });
 
-        return Stream.unfoldEffect(reader, (r) =>
+        const connectedAt = Date.now();
+        meter.reset(connectedAt);
+        stallMeter.reset(connectedAt);
+        let recovered = false;
+        const trackRecovery = Effect.suspend(() => {
+          if (recovered || Date.now() - connectedAt < stableAfterMs) return Effect.void;
+          recovered = true;
+          return recordRecovery(index);
+        });
+
+        const readTimedOut = new Error("Stream read timed out");
+        let readError: string | null = null;
+        let timedOut = false;
+        let cooledDown = false;
+        const audio = Stream.unfoldEffect(reader, (r) =>
           Effect.tryPromise({
             try: () => r.read(),
             catch: (e) => new Error(`Read failed: ${e}`),
@@ -61,11 +280,147 @@ export const StreamServiceLive = Layer.effect(
             ),
           ),
         ).pipe(
-          Stream.timeoutFail(() => new Error("Stream read timed out"), streamReadTimeout),
-          Stream.ensuring(cleanup),
+          Stream.timeoutFail(() => readTimedOut, streamReadTimeout),
+          // Dead air ends the connection like a read timeout, so it's retried or switched
+          Stream.merge(Stream.fromEffect(silence.awaitSilence(connectedAt)), {
+            haltStrategy: "left",
+          }),
+          // And so does a connection too slow to keep the buffer filled
+          Stream.merge(Stream.fromEffect(awaitStall), { haltStrategy: "left" }),
+          Stream.mapConcat(parse),
+          Stream.mapConcat(detectBitrate),
+          Stream.tap((part) =>
+            part._tag === "Bitrate"
+              ? Ref.set(bitrateRef, { detectedKbps: part.kbps, detectedFrom: part.source })
+              : part._tag === "Audio"
+                ? silence.feed(part.data).pipe(Effect.zipRight(trackRecovery))
+                : trackRecovery,
+          ),
+          Stream.tapError((e) =>
+            Effect.sync(() => {
+              readError = e.message;
+              timedOut = e === readTimedOut;
+            }).pipe(
+              Effect.zipRight(recordFailure(index)),
+              Effect.zipRight(
+                e === readTimedOut ? Metric.increment(streamReadTimeouts) : Effect.void,
+              ),
+              Effect.zipRight(
+                e instanceof StallError
+                  ? Effect.logWarning(`${e.message} on ${streamUrl}; reconnecting`).pipe(
+                      Effect.zipRight(Ref.update(stallsRef, (n) => n + 1)),
+                      Effect.zipRight(Metric.increment(streamStalls)),
+                    )
+                  : Effect.void,
+              ),
+              Effect.zipRight(
+                e instanceof SilenceError
+                  ? Effect.logWarning(`${streamUrl} is silent; reconnecting`).pipe(
+                      Effect.zipRight(Metric.increment(streamSilences)),
+                      Effect.zipRight(
+                        events.publish({
+                          type: "stream",
+                          status: "silent",
+                          url: streamUrl,
+                          silentSeconds: Math.round(e.silentMs / 1000),
+                        }),
+                      ),
+                    )
+                  : Effect.void,
+              ),
+            ),
+          ),
+          Stream.ensuring(
+            cleanup.pipe(
+              Effect.zipRight(
+                Effect.suspend(() =>
+                  events.publish(
+                    cooledDown
+                      ? { type: "stream", status: "switching", url: streamUrl, to: streamUrls[0]! }
+                      : {
+                          type: "stream",
+                          status: "disconnected",
+                          url: streamUrl,
+                          error: readError,
+                          timedOut,
+                        },
+                  ),
+                ),
+              ),
+            ),
+          ),
+        );
+
+        if (index === 0) return audio;
+
+        // End mirror streams when the cooldown is up so the next connect tries the primary
+        const { switchedAt } = yield* Ref.get(mirrorRef);
+        const remainingMs = Duration.toMillis(primaryCooldown) - (Date.now() - switchedAt);
+        return audio.pipe(
+          Stream.interruptWhen(
+            Effect.sleep(Duration.millis(Math.max(0, remainingMs))).pipe(
+              Effect.zipRight(
+                Effect.sync(() => {
+                  cooledDown = true;
+                }),
+              ),
+            ),
+          ),
         );
-      });
+      }).pipe(
+        Effect.tapError((e) =>
+          recordFailure(index).pipe(
+            Effect.zipRight(Metric.increment(streamConnectFailures)),
+            Effect.zipRight(
+              events.publish({
+                type: "stream",
+                status: "failed",
+                url: streamUrl,
+                error: e.message,
+              }),
+            ),
+          ),
+        ),
+      );
+
+    const connect = (): Effect.Effect<Stream.Stream<StreamPart, Error>, Error> =>
+      selectMirror.pipe(
+        Effect.flatMap((index) => {
+          const url = streamUrls[index] ?? streamUrls[0]!;
+          return connectTo(index, url);
+        }),
+      );
+
+    const getStatus = () =>
+      Effect.all([Ref.get(mirrorRef), Ref.get(stallsRef)]).pipe(
+        Effect.map(
+          ([state, stalls]): StreamStatus => ({
+            activeUrl: streamUrls[state.active] ?? "",
+            consecutiveFailures: state.consecutiveFailures,
+            stalls,
+            mirrors: streamUrls.map((url, i) => ({
+              url,
+              active: i === state.active,
+              failures: state.failures[i] ?? 0,
+            })),
+          }),
+        ),
+      );
+
+    const getBitrate = () =>
+      Ref.get(bitrateRef).pipe(
+        Effect.map((detected): StreamBitrate => {
+          // Too short a window mostly measures the server's initial burst
+          const measuredKbps =
+            meter.elapsedMs() >= 10000 ? Math.round((meter.bytesPerSecond() * 8) / 1000) : null;
+          const recentKbps =
+            stallMeter.elapsedMs() >= stallWindowMs
+              ? Math.round((stallMeter.bytesPerSecond() * 8) / 1000)
+              : null;
+          return { ...detected, measuredKbps, recentKbps };
+        }),
+      );
 
-    return { connect };
+    return { connect, getStatus, getBitrate };
   }),
 );
@@ -0,0 +1,231 @@
+import * as Sentry from "@sentry/bun";
+import type { Scope } from "@sentry/bun";
+import { Context, Effect, Layer, LogLevel, Option, Redacted, Ref } from "effect";
+import { promises as fs } from "fs";
+import { dirname, join } from "path";
+import { AppConfig } from "../config";
+
+export type TelemetryBackendName = "sentry" | "console" | "file" | "none";
+
+export type TelemetryLevel = "debug" | "info" | "warning" | "error" | "fatal";
+
+export interface TelemetryContext {
+  tags?: Record<string, string>;
+  extra?: Record<string, unknown>;
+  contexts?: Record<string, Record<string, unknown>>;
+}
+
+export interface Breadcrumb {
+  category: string;
+  message: string;
+  level: TelemetryLevel;
+  data?: Record<string, unknown>;
+}
+
+export class Telemetry extends Context.Tag("Telemetry")<
+  Telemetry,
+  {
+    readonly name: TelemetryBackendName;
+    readonly captureException: (error: unknown, context?: TelemetryContext) => Effect.Effect<void>;
+    readonly captureMessage: (
+      message: string,
+      level?: TelemetryLevel,
+      context?: TelemetryContext,
+    ) => Effect.Effect<void>;
+    // Recorded with the next captured exception or message
+    readonly addBreadcrumb: (breadcrumb: Breadcrumb) => Effect.Effect<void>;
+    // Sends whatever is still queued; called before exiting
+    readonly flush: (timeoutMs?: number) => Effect.Effect<void>;
+  }
+>() {}
+
+// Set on every event, whichever backend records it
+const baseTags = { service: "classicfm-buffer", runtime: "bun" };
+
+// Local backends keep this many, like Sentry's default trail
+const maxBreadcrumbs = 100;
+
+interface TelemetryRecord {
+  at: string;
+  kind: "exception" | "message";
+  level: TelemetryLevel;
+  message: string;
+  stack: string | null;
+  tags: Record<string, string>;
+  extra: Record<string, unknown>;
+  contexts: Record<string, Record<string, unknown>>;
+  breadcrumbs: Array<Breadcrumb & { at: string }>;
+}
+
+const applyContext = (scope: Scope, context?: TelemetryContext) => {
+  if (!context) return;
+  if (context.tags) {
+    for (const [key, value] of Object.entries(context.tags)) {
+      scope.setTag(key, value);
+    }
+  }
+  if (context.extra) {
+    scope.setExtras(context.extra);
+  }
+  if (context.contexts) {
+    for (const [name, value] of Object.entries(context.contexts)) {
+      scope.setContext(name, value);
+    }
+  }
+};
+
+const sentryBackend = (dsn: string, environment: string, sampleRate: number) =>
+  Effect.sync(() => {
+    Sentry.init({ dsn, environment, sampleRate });
+    for (const [key, value] of Object.entries(baseTags)) {
+      Sentry.setTag(key, value);
+    }
+
+    return Telemetry.of({
+      name: "sentry",
+      captureException: (error, context) =>
+        Effect.sync(() =>
+          Sentry.withScope((scope) => {
+            applyContext(scope, context);
+            Sentry.captureException(error);
+          }),
+        ),
+      captureMessage: (message, level = "info", context) =>
+        Effect.sync(() =>
+          Sentry.withScope((scope) => {
+            applyContext(scope, context);
+            Sentry.captureMessage(message, level);
+          }),
+        ),
+      addBreadcrumb: (breadcrumb) => Effect.sync(() => Sentry.addBreadcrumb(breadcrumb)),
+      flush: (timeoutMs = 2000) =>
+        Effect.tryPromise({
+          try: () => Sentry.flush(timeoutMs),
+          catch: (e) => new Error(`Sentry flush failed: ${e}`),
+        }).pipe(
+          Effect.asVoid,
+          Effect.catchAll(() => Effect.void),
+        ),
+    });
+  });
+
+// Keeps the breadcrumb trail itself and hands each event to `write` as a record
+const localBackend = (
+  name: TelemetryBackendName,
+  write: (record: TelemetryRecord) => Effect.Effect<void>,
+) =>
+  Effect.gen(function* () {
+    const trailRef = yield* Ref.make<TelemetryRecord["breadcrumbs"]>([]);
+
+    const capture = (
+      kind: TelemetryRecord["kind"],
+      level: TelemetryLevel,
+      message: string,
+      stack: string | null,
+      context?: TelemetryContext,
+    ) =>
+      Ref.get(trailRef).pipe(
+        Effect.flatMap((breadcrumbs) =>
+          write({
+            at: new Date().toISOString(),
+            kind,
+            level,
+            message,
+            stack,
+            tags: { ...baseTags, ...context?.tags },
+            extra: context?.extra ?? {},
+            contexts: context?.contexts ?? {},
+            breadcrumbs,
+          }),
+        ),
+      );
+
+    return Telemetry.of({
+      name,
+      captureException: (error, context) =>
+        error instanceof Error
+          ? capture("exception", "error", error.message, error.stack ?? null, context)
+          : capture("exception", "error", String(error), null, context),
+      captureMessage: (message, level = "info", context) =>
+        capture("message", level, message, null, context),
+      addBreadcrumb: (breadcrumb) =>
+        Ref.update(trailRef, (trail) =>
+          [...trail, { ...breadcrumb, at: new Date().toISOString() }].slice(-maxBreadcrumbs),
+        ),
+      flush: () => Effect.void,
+    });
+  });
+
+const logLevels: Record<TelemetryLevel, LogLevel.LogLevel> = {
+  debug: LogLevel.Debug,
+  info: LogLevel.Info,
+  warning: LogLevel.Warning,
+  error: LogLevel.Error,
+  fatal: LogLevel.Fatal,
+};
+
+// Only the last few breadcrumbs, to keep log lines readable
+const consoleBackend = localBackend("console", (record) =>
+  Effect.logWithLevel(
+    logLevels[record.level],
+    record.kind === "exception" ? `Exception: ${record.message}` : record.message,
+  ).pipe(
+    Effect.annotateLogs({
+      ...record.tags,
+      ...record.extra,
+      breadcrumbs: record.breadcrumbs
+        .slice(-5)
+        .map((b) => `${b.category}: ${b.message}`)
+        .join(" > "),
+    }),
+  ),
+);
+
+// One JSON object per line
+const fileBackend = (path: string) =>
+  Effect.tryPromise(() => fs.mkdir(dirname(path), { recursive: true })).pipe(
+    Effect.orDie,
+    Effect.zipRight(
+      localBackend("file", (record) =>
+        Effect.tryPromise(() => fs.appendFile(path, `${JSON.stringify(record)}\n`)).pipe(
+          Effect.catchAll((e) => Effect.logWarning(`Failed to write telemetry to ${path}: ${e}`)),
+        ),
+      ),
+    ),
+  );
+
+const noopBackend = Telemetry.of({
+  name: "none",
+  captureException: () => Effect.void,
+  captureMessage: () => Effect.void,
+  addBreadcrumb: () => Effect.void,
+  flush: () => Effect.void,
+});
+
+export const TelemetryLive = Layer.effect(
+  Telemetry,
+  Effect.gen(function* () {
+    const name = yield* AppConfig.TelemetryBackend;
+    const dsn = yield* AppConfig.SentryDsn;
+    const environment = yield* AppConfig.SentryEnvironment;
+    const sampleRate = yield* AppConfig.SentrySampleRate;
+    const file = yield* AppConfig.TelemetryFile;
+    const dataDir = yield* AppConfig.DataDir;
+
+    yield* Effect.log(`Telemetry: ${name}`);
+
+    switch (name) {
+      case "sentry":
+        return yield* Option.match(dsn, {
+          onNone: () => Effect.dieMessage("TELEMETRY_BACKEND=sentry needs SENTRY_DSN"),
+          onSome: (value) => sentryBackend(Redacted.value(value), environment, sampleRate),
+        });
+      case "console":
+        return yield* consoleBackend;
+      case "file":
+        return yield* fileBackend(Option.getOrElse(file, () => join(dataDir, "telemetry.jsonl")));
+      case "none":
+        return noopBackend;
+    }
+  }),
+);
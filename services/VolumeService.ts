@@ -0,0 +1,100 @@
+import { Context, Effect, Layer, Ref, Stream } from "effect";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { ConfigService } from "./ConfigService";
+import { AppConfig } from "../config";
+import { GAIN_STEP_DB } from "../utils/mp3";
+
+export const MAX_VOLUME = 200;
+
+export interface VolumeStatus {
+  volume: number;
+  // null when muted
+  gainDb: number | null;
+}
+
+export class VolumeService extends Context.Tag("VolumeService")<
+  VolumeService,
+  {
+    readonly get: () => Effect.Effect<VolumeStatus>;
+    readonly set: (volume: number) => Effect.Effect<VolumeStatus, Error>;
+    // Target gain in global_gain steps; -Infinity when muted
+    readonly gainSteps: () => Effect.Effect<number>;
+  }
+>() {}
+
+// Percent to the nearest 1.5dB step, since that's all MP3 frames can express
+const volumeToSteps = (volume: number) =>
+  volume <= 0 ? -Infinity : Math.round((20 * Math.log10(volume / 100)) / GAIN_STEP_DB);
+
+const isVolume = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= MAX_VOLUME;
+
+const statusOf = (volume: number): VolumeStatus => {
+  const steps = volumeToSteps(volume);
+  return { volume, gainDb: steps === -Infinity ? null : steps * GAIN_STEP_DB };
+};
+
+export const VolumeServiceLive = Layer.scoped(
+  VolumeService,
+  Effect.gen(function* () {
+    const config = yield* ConfigService;
+    const dataDir = yield* AppConfig.DataDir;
+    const defaultVolume = yield* AppConfig.Volume;
+    const path = join(dataDir, "volume.json");
+
+    const saved = yield* Effect.tryPromise({
+      try: async () => {
+        const raw = await fs.readFile(path, "utf8").catch(() => null);
+        if (raw === null) return null;
+        const { volume } = JSON.parse(raw) as { volume?: unknown };
+        return isVolume(volume) ? volume : null;
+      },
+      catch: (e) => new Error(`Failed to read saved volume: ${e}`),
+    }).pipe(Effect.catchAll((e) => Effect.logWarning(e.message).pipe(Effect.as(null))));
+
+    const volumeRef = yield* Ref.make(saved ?? defaultVolume);
+    yield* Effect.log(`Volume: ${saved ?? defaultVolume}%`);
+
+    const save = (volume: number) =>
+      Effect.tryPromise({
+        try: async () => {
+          const tempPath = `${path}.tmp`;
+          await fs.mkdir(dataDir, { recursive: true });
+          await fs.writeFile(tempPath, JSON.stringify({ volume }));
+          await fs.rename(tempPath, path);
+        },
+        catch: (e) => new Error(`Failed to save volume: ${e}`),
+      }).pipe(Effect.catchAll((e) => Effect.logWarning(e.message)));
+
+    const get = () => Ref.get(volumeRef).pipe(Effect.map(statusOf));
+
+    const set = (volume: number) =>
+      Effect.gen(function* () {
+        if (!isVolume(volume)) {
+          return yield* Effect.fail(new Error(`Volume must be between 0 and ${MAX_VOLUME}`));
+        }
+
+        yield* Ref.set(volumeRef, volume);
+        yield* save(volume);
+        yield* Effect.log(`Volume set to ${volume}%`);
+        return statusOf(volume);
+      });
+
+    const gainSteps = () => Ref.get(volumeRef).pipe(Effect.map(volumeToSteps));
+
+    // A VOLUME changed by a config reload replaces whatever was set through the API
+    yield* Effect.forkScoped(
+      config.changes().pipe(
+        Stream.map((settings) => settings.Volume),
+        Stream.changes,
+        Stream.drop(1),
+        Stream.runForEach((volume) =>
+          set(volume).pipe(Effect.catchAll((e) => Effect.logWarning(e.message))),
+        ),
+      ),
+    );
+
+    return { get, set, gainSteps };
+  }),
+);
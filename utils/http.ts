@@ -0,0 +1,9 @@
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body, null, 2), {
+    headers: { "Content-Type": "application/json", ...headers },
+    status,
+  });
+
+// The error envelope every endpoint uses
+export const errorResponse = (status: number, error: string, headers?: Record<string, string>) =>
+  jsonResponse({ status: "error", error }, status, headers);
@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createIcyInjector,
+  createIcyParser,
+  encodeIcyMetadata,
+  IcyPart,
+  parseStreamTitle,
+} from "./icy";
+
+const audio = (from: number, length: number) =>
+  Uint8Array.from({ length }, (_, i) => (from + i) % 251);
+
+const concat = (...parts: Uint8Array[]) => {
+  const data = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return data;
+};
+
+// Joins up the audio and lists titles in the order they were parsed
+const collect = (parts: IcyPart[]) => ({
+  audio: concat(...parts.flatMap((part) => (part._tag === "Audio" ? [part.data] : []))),
+  titles: parts.flatMap((part) => (part._tag === "Title" ? [part.title] : [])),
+});
+
+describe("parseStreamTitle", () => {
+  test("reads the title from a metadata block", () => {
+    expect(parseStreamTitle("StreamTitle='Bach - Air';StreamUrl='';\0\0\0")).toBe("Bach - Air");
+    expect(parseStreamTitle("StreamTitle='  Satie - Gymnopédie No.1 ';")).toBe(
+      "Satie - Gymnopédie No.1",
+    );
+  });
+
+  test("keeps apostrophes in the title", () => {
+    expect(parseStreamTitle("StreamTitle='Handel - Zadok the Priest';")).toBe(
+      "Handel - Zadok the Priest",
+    );
+    expect(parseStreamTitle("StreamTitle='It's Beethoven's Fifth';StreamUrl='x';")).toBe(
+      "It's Beethoven's Fifth",
+    );
+  });
+
+  test("returns null without a title", () => {
+    expect(parseStreamTitle("StreamUrl='http://example.com';")).toBeNull();
+    expect(parseStreamTitle("StreamTitle='';")).toBe("");
+  });
+});
+
+describe("encodeIcyMetadata", () => {
+  test("pads the text to whole 16 byte blocks", () => {
+    const encoded = encodeIcyMetadata("Bach");
+    // "StreamTitle='Bach';" is 19 bytes
+    expect(encoded[0]).toBe(2);
+    expect(encoded.length).toBe(33);
+    expect(encoded.subarray(20)).toEqual(new Uint8Array(13));
+  });
+
+  test("cuts off titles longer than a block can hold", () => {
+    const encoded = encodeIcyMetadata("x".repeat(5000));
+    expect(encoded[0]).toBe(255);
+    expect(encoded.length).toBe(1 + 255 * 16);
+  });
+});
+
+describe("createIcyParser", () => {
+  const metaint = 8;
+  const stream = concat(
+    audio(0, 8),
+    encodeIcyMetadata("Mozart - Requiem"),
+    audio(8, 8),
+    Uint8Array.from([0]),
+    audio(16, 5),
+  );
+
+  test("splits audio from titles", () => {
+    const parsed = collect(createIcyParser(metaint)(stream));
+    expect(parsed.audio).toEqual(audio(0, 21));
+    expect(parsed.titles).toEqual(["Mozart - Requiem"]);
+  });
+
+  test("handles blocks split across chunks", () => {
+    for (const size of [1, 3, 7, 16]) {
+      const parse = createIcyParser(metaint);
+      const parts: IcyPart[] = [];
+      for (let offset = 0; offset < stream.length; offset += size) {
+        parts.push(...parse(stream.subarray(offset, offset + size)));
+      }
+
+      const parsed = collect(parts);
+      expect(parsed.audio).toEqual(audio(0, 21));
+      expect(parsed.titles).toEqual(["Mozart - Requiem"]);
+    }
+  });
+});
+
+describe("createIcyInjector", () => {
+  test("puts a block every metaint bytes, with the title only when it changes", () => {
+    const inject = createIcyInjector(8);
+    const output = concat(
+      inject(audio(0, 12), "Bach - Air"),
+      inject(audio(12, 6), "Bach - Air"),
+      inject(audio(18, 10), "Elgar - Nimrod"),
+    );
+
+    expect(output).toEqual(
+      concat(
+        audio(0, 8),
+        encodeIcyMetadata("Bach - Air"),
+        audio(8, 8),
+        Uint8Array.from([0]),
+        audio(16, 8),
+        encodeIcyMetadata("Elgar - Nimrod"),
+        audio(24, 4),
+      ),
+    );
+  });
+
+  test("sends empty blocks until there's a title", () => {
+    const output = createIcyInjector(4)(audio(0, 8), null);
+    expect(output).toEqual(
+      concat(audio(0, 4), Uint8Array.from([0]), audio(4, 4), Uint8Array.from([0])),
+    );
+  });
+
+  test("round-trips through the parser", () => {
+    const inject = createIcyInjector(16000);
+    const parse = createIcyParser(16000);
+    const parts: IcyPart[] = [];
+    for (let i = 0; i < 10; i++) {
+      parts.push(...parse(inject(audio(i * 5000, 5000), i < 5 ? "Holst - Mars" : "Holst - Venus")));
+    }
+
+    const parsed = collect(parts);
+    expect(parsed.audio).toEqual(audio(0, 50000));
+    expect(parsed.titles).toEqual(["Holst - Mars", "Holst - Venus"]);
+  });
+});
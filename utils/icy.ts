@@ -0,0 +1,114 @@
+export type IcyPart =
+  | { readonly _tag: "Audio"; readonly data: Uint8Array }
+  | { readonly _tag: "Title"; readonly title: string };
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+const emptyMetadata = new Uint8Array([0]);
+
+export const parseStreamTitle = (metadata: string): string | null => {
+  const match = /StreamTitle='(.*?)';(?=\w+=|\s*$)/s.exec(metadata.replace(/\0+$/, ""));
+  return match ? (match[1] ?? "").trim() : null;
+};
+
+// Splits an ICY stream into audio bytes and titles. Metadata blocks arrive every
+// `metaint` audio bytes as one length byte (x16) followed by the metadata text.
+export const createIcyParser = (metaint: number) => {
+  let audioRemaining = metaint;
+  let metadata: Uint8Array | null = null;
+  let metadataOffset = 0;
+  let awaitingLength = false;
+
+  return (chunk: Uint8Array): IcyPart[] => {
+    const parts: IcyPart[] = [];
+    let offset = 0;
+
+    while (offset < chunk.length) {
+      if (audioRemaining > 0) {
+        const take = Math.min(audioRemaining, chunk.length - offset);
+        parts.push({ _tag: "Audio", data: chunk.subarray(offset, offset + take) });
+        audioRemaining -= take;
+        offset += take;
+        awaitingLength = audioRemaining === 0;
+        continue;
+      }
+
+      if (awaitingLength) {
+        const length = (chunk[offset] ?? 0) * 16;
+        offset += 1;
+        awaitingLength = false;
+        if (length === 0) {
+          audioRemaining = metaint;
+        } else {
+          metadata = new Uint8Array(length);
+          metadataOffset = 0;
+        }
+        continue;
+      }
+
+      if (metadata) {
+        const take = Math.min(metadata.length - metadataOffset, chunk.length - offset);
+        metadata.set(chunk.subarray(offset, offset + take), metadataOffset);
+        metadataOffset += take;
+        offset += take;
+
+        if (metadataOffset === metadata.length) {
+          const title = parseStreamTitle(decoder.decode(metadata));
+          if (title !== null) parts.push({ _tag: "Title", title });
+          metadata = null;
+          audioRemaining = metaint;
+        }
+      }
+    }
+
+    return parts;
+  };
+};
+
+export const encodeIcyMetadata = (title: string): Uint8Array => {
+  const text = encoder.encode(`StreamTitle='${title}';`);
+  const blocks = Math.min(255, Math.ceil(text.length / 16));
+  const output = new Uint8Array(1 + blocks * 16);
+  output[0] = blocks;
+  output.set(text.subarray(0, blocks * 16), 1);
+  return output;
+};
+
+// The inverse of createIcyParser: interleaves a metadata block every `metaint` audio
+// bytes. Titles are only sent when they change; other blocks are empty.
+export const createIcyInjector = (metaint: number) => {
+  let untilMetadata = metaint;
+  let sentTitle: string | null = null;
+
+  return (data: Uint8Array, title: string | null): Uint8Array => {
+    const parts: Uint8Array[] = [];
+    let length = 0;
+    let offset = 0;
+
+    while (offset < data.length) {
+      const take = Math.min(untilMetadata, data.length - offset);
+      const audio = data.subarray(offset, offset + take);
+      parts.push(audio);
+      length += audio.length;
+      offset += take;
+      untilMetadata -= take;
+
+      if (untilMetadata === 0) {
+        const metadata =
+          title !== null && title !== sentTitle ? encodeIcyMetadata(title) : emptyMetadata;
+        if (title !== null) sentTitle = title;
+        parts.push(metadata);
+        length += metadata.length;
+        untilMetadata = metaint;
+      }
+    }
+
+    const output = new Uint8Array(length);
+    let position = 0;
+    for (const part of parts) {
+      output.set(part, position);
+      position += part.length;
+    }
+    return output;
+  };
+};
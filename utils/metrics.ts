@@ -0,0 +1,130 @@
+import { Effect, Metric, MetricBoundaries, MetricState, Option } from "effect";
+import type { MetricPair } from "effect";
+
+export const bufferBytes = Metric.gauge("classicfm_buffer_bytes", {
+  description: "Audio currently buffered",
+});
+export const bufferTargetBytes = Metric.gauge("classicfm_buffer_target_bytes", {
+  description: "Buffer size at 100%",
+});
+export const bufferPercentage = Metric.gauge("classicfm_buffer_percentage", {
+  description: "Buffer fill level",
+});
+export const playbackState = Metric.gauge("classicfm_playback_state", {
+  description: "1 for the current playback state, 0 for the others",
+});
+
+export const streamConnectAttempts = Metric.counter("classicfm_stream_connect_attempts_total", {
+  description: "Connections attempted to the stream or a mirror",
+});
+export const streamConnectFailures = Metric.counter("classicfm_stream_connect_failures_total", {
+  description: "Connections that failed before audio arrived",
+});
+export const streamReadTimeouts = Metric.counter("classicfm_stream_read_timeouts_total", {
+  description: "Connections dropped because no data arrived in time",
+});
+export const streamStalls = Metric.counter("classicfm_stream_stalls_total", {
+  description: "Connections dropped because data arrived too slowly",
+});
+export const streamSilences = Metric.counter("classicfm_stream_silences_total", {
+  description: "Connections dropped because the audio stayed silent",
+});
+export const streamLevel = Metric.gauge("classicfm_stream_level_dbfs", {
+  description: "Loudness of the last second of ingested audio",
+});
+export const ingestedBytes = Metric.counter("classicfm_ingested_bytes_total", {
+  description: "Audio bytes received from the stream",
+});
+export const discontinuities = Metric.counter("classicfm_discontinuities_total", {
+  description: "Gaps recorded in the buffer, such as stream reconnects",
+});
+
+export const playerRestarts = Metric.counter("classicfm_player_restarts_total", {
+  description: "Times the player was restarted",
+});
+export const playerExits = Metric.counter("classicfm_player_exits_total", {
+  description: "Player exits, by exit code",
+});
+export const playedBytes = Metric.counter("classicfm_played_bytes_total", {
+  description: "Audio bytes written to the player",
+});
+export const bufferingSeconds = Metric.counter("classicfm_buffering_seconds_total", {
+  description: "Time spent waiting for the buffer to fill",
+});
+
+export const rebuilds = Metric.counter("classicfm_rebuilds_total", {
+  description: "Buffer rebuilds, by outcome",
+});
+export const rebuildDuration = Metric.histogram(
+  "classicfm_rebuild_duration_seconds",
+  MetricBoundaries.fromIterable([60, 300, 900, 1800, 3600, 7200]),
+  "Time from the start of a rebuild to the switch to the fresh buffer",
+);
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: ReadonlyArray<readonly [string, string]>) =>
+  labels.length === 0
+    ? ""
+    : `{${labels.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(",")}}`;
+
+const formatPair = (pair: MetricPair.MetricPair.Untyped) => {
+  const { name, tags } = pair.metricKey;
+  const labels = tags.map((tag) => [tag.key, tag.value] as const);
+  const state = pair.metricState;
+
+  if (MetricState.isCounterState(state)) {
+    return { type: "counter", lines: [`${name}${formatLabels(labels)} ${state.count}`] };
+  }
+  if (MetricState.isGaugeState(state)) {
+    return { type: "gauge", lines: [`${name}${formatLabels(labels)} ${state.value}`] };
+  }
+  if (MetricState.isHistogramState(state)) {
+    const bucket = (le: string, count: number) =>
+      `${name}_bucket${formatLabels([...labels, ["le", le]])} ${count}`;
+    return {
+      type: "histogram",
+      lines: [
+        ...state.buckets
+          .filter(([le]) => Number.isFinite(le))
+          .map(([le, count]) => bucket(String(le), count)),
+        bucket("+Inf", state.count),
+        `${name}_sum${formatLabels(labels)} ${state.sum}`,
+        `${name}_count${formatLabels(labels)} ${state.count}`,
+      ],
+    };
+  }
+  return null;
+};
+
+// Every registered classicfm_ metric in the Prometheus text exposition format
+export const renderPrometheus = Effect.map(Metric.snapshot, (pairs) => {
+  const families = new Map<string, { help: string; type: string; lines: string[] }>();
+
+  for (const pair of pairs) {
+    const { name, description } = pair.metricKey;
+    // Skip Effect's built-in fiber metrics
+    if (!name.startsWith("classicfm_")) continue;
+    const formatted = formatPair(pair);
+    if (!formatted) continue;
+
+    const family = families.get(name) ?? {
+      help: Option.getOrElse(description, () => name),
+      type: formatted.type,
+      lines: [],
+    };
+    family.lines.push(...formatted.lines);
+    families.set(name, family);
+  }
+
+  return [...families.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([name, family]) => [
+      `# HELP ${name} ${family.help}`,
+      `# TYPE ${name} ${family.type}`,
+      ...family.lines,
+    ])
+    .join("\n")
+    .concat("\n");
+});
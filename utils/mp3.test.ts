@@ -0,0 +1,186 @@
+import { describe, expect, test } from "bun:test";
+import {
+  adjustFrameGain,
+  countFrames,
+  findFrameSync,
+  measureBitrateKbps,
+  parseFrameHeader,
+} from "./mp3";
+
+// MPEG 1 layer III, 128kbps, 44.1kHz, no CRC, stereo
+const header = [0xff, 0xfb, 0x90, 0x00];
+const frameLength = 417;
+
+const frames = (count: number, bytes = header) => {
+  const data = new Uint8Array(count * frameLength);
+  for (let i = 0; i < count; i++) data.set(bytes, i * frameLength);
+  return data;
+};
+
+const concat = (...parts: Uint8Array[]) => {
+  const data = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return data;
+};
+
+const readBits = (data: Uint8Array, bit: number, count: number) => {
+  let value = 0;
+  for (let i = 0; i < count; i++) {
+    value = (value << 1) | ((data[(bit + i) >> 3]! >> (7 - ((bit + i) & 7))) & 1);
+  }
+  return value;
+};
+
+describe("parseFrameHeader", () => {
+  test("reads an MPEG 1 layer III header", () => {
+    expect(parseFrameHeader(Uint8Array.from(header), 0)).toEqual({
+      version: 1,
+      layer: 3,
+      bitrateKbps: 128,
+      sampleRate: 44100,
+      channels: 2,
+      padding: false,
+      crc: false,
+      frameLength,
+      samples: 1152,
+      durationMs: (1152 / 44100) * 1000,
+    });
+  });
+
+  test("reads padding, CRC and mono", () => {
+    const parsed = parseFrameHeader(Uint8Array.from([0xff, 0xfa, 0x92, 0xc0]), 0);
+    expect(parsed).toMatchObject({ padding: true, crc: true, channels: 1, frameLength: 418 });
+  });
+
+  test("reads an MPEG 2 layer III header", () => {
+    // 64kbps at 22.05kHz
+    const parsed = parseFrameHeader(Uint8Array.from([0xff, 0xf3, 0x80, 0x00]), 0);
+    expect(parsed).toMatchObject({
+      version: 2,
+      layer: 3,
+      bitrateKbps: 64,
+      sampleRate: 22050,
+      samples: 576,
+      frameLength: 208,
+    });
+  });
+
+  test("rejects what isn't a usable header", () => {
+    // No sync word, a reserved version, free-format bitrate, a reserved sample rate
+    for (const bytes of [
+      [0xfe, 0xfb, 0x90, 0x00],
+      [0xff, 0xeb, 0x90, 0x00],
+      [0xff, 0xfb, 0x00, 0x00],
+      [0xff, 0xfb, 0x9c, 0x00],
+    ]) {
+      expect(parseFrameHeader(Uint8Array.from(bytes), 0)).toBeNull();
+    }
+    // Cut off before the end of the header
+    expect(parseFrameHeader(Uint8Array.from(header), 1)).toBeNull();
+  });
+});
+
+describe("findFrameSync", () => {
+  test("skips garbage and a lone fake sync word", () => {
+    const data = concat(Uint8Array.from([1, 2, ...header, 3]), frames(3));
+    expect(findFrameSync(data, 0)).toBe(7);
+  });
+
+  test("needs the requested number of frames in a row", () => {
+    expect(findFrameSync(frames(2), 0)).toBe(-1);
+    expect(findFrameSync(frames(2), 0, 2)).toBe(0);
+  });
+
+  test("doesn't accept frames from another stream as confirmation", () => {
+    const mpeg2 = frames(1, [0xff, 0xf3, 0x80, 0x00]).subarray(0, 208);
+    expect(findFrameSync(concat(frames(2), mpeg2), 0)).toBe(-1);
+  });
+});
+
+describe("measureBitrateKbps", () => {
+  test("averages over the complete frames", () => {
+    const data = frames(12);
+    expect(measureBitrateKbps(data)).toBe(128);
+    expect(measureBitrateKbps(data.subarray(0, 11 * frameLength + 100))).toBe(128);
+  });
+
+  test("needs enough frames", () => {
+    expect(measureBitrateKbps(frames(9))).toBeNull();
+    expect(measureBitrateKbps(new Uint8Array(5000))).toBeNull();
+  });
+});
+
+describe("countFrames", () => {
+  test("counts back-to-back frames from the start", () => {
+    expect(countFrames(frames(5))).toBe(5);
+    expect(countFrames(concat(new Uint8Array(1), frames(5)))).toBe(0);
+  });
+});
+
+describe("adjustFrameGain", () => {
+  // Bit offset of global_gain in each granule and channel of a frame at offset 0
+  const gainBits = (preamble: number, blocks: number, blockBits: number, crc = false) =>
+    Array.from(
+      { length: blocks },
+      (_, block) => (crc ? 48 : 32) + preamble + block * blockBits + 21,
+    );
+
+  test.each([
+    ["MPEG 1 stereo", header, 20, 4, 59],
+    ["MPEG 1 mono", [0xff, 0xfb, 0x90, 0xc0], 18, 2, 59],
+    ["MPEG 2 stereo", [0xff, 0xf3, 0x80, 0x00], 10, 2, 63],
+    ["MPEG 2 mono", [0xff, 0xf3, 0x80, 0xc0], 9, 1, 63],
+  ] as const)("shifts every global_gain in %s", (_, bytes, preamble, blocks, blockBits) => {
+    const data = frames(1, [...bytes]);
+    const parsed = parseFrameHeader(data, 0)!;
+    const bits = gainBits(preamble, blocks, blockBits);
+
+    adjustFrameGain(data, 0, parsed, 100);
+    expect(bits.map((bit) => readBits(data, bit, 8))).toEqual(bits.map(() => 100));
+
+    // Only the gain fields change
+    const untouched = new Uint8Array(data);
+    for (const bit of bits) {
+      for (let i = 0; i < 8; i++) {
+        untouched[(bit + i) >> 3]! &= ~(1 << (7 - ((bit + i) & 7)));
+      }
+    }
+    expect(untouched).toEqual(frames(1, [...bytes]));
+
+    adjustFrameGain(data, 0, parsed, -3);
+    expect(bits.map((bit) => readBits(data, bit, 8))).toEqual(bits.map(() => 97));
+  });
+
+  test("skips the CRC", () => {
+    const data = frames(1, [0xff, 0xfa, 0x90, 0x00]);
+    adjustFrameGain(data, 0, parseFrameHeader(data, 0)!, 7);
+    expect(readBits(data, gainBits(20, 1, 59, true)[0]!, 8)).toBe(7);
+  });
+
+  test("clamps to the range of the field", () => {
+    const data = frames(1);
+    const parsed = parseFrameHeader(data, 0)!;
+    const bit = gainBits(20, 1, 59)[0]!;
+
+    adjustFrameGain(data, 0, parsed, 300);
+    expect(readBits(data, bit, 8)).toBe(255);
+    adjustFrameGain(data, 0, parsed, -Infinity);
+    expect(readBits(data, bit, 8)).toBe(0);
+  });
+
+  test("works at an offset and leaves other layers alone", () => {
+    const data = frames(2);
+    adjustFrameGain(data, frameLength, parseFrameHeader(data, frameLength)!, 5);
+    expect(readBits(data, gainBits(20, 1, 59)[0]!, 8)).toBe(0);
+    expect(readBits(data, frameLength * 8 + gainBits(20, 1, 59)[0]!, 8)).toBe(5);
+
+    // Layer II
+    const layer2 = frames(1, [0xff, 0xfd, 0x90, 0x00]);
+    adjustFrameGain(layer2, 0, parseFrameHeader(layer2, 0)!, 5);
+    expect(layer2).toEqual(frames(1, [0xff, 0xfd, 0x90, 0x00]));
+  });
+});
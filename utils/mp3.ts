@@ -0,0 +1,179 @@
+export interface Mp3FrameHeader {
+  version: 1 | 2 | 2.5;
+  layer: 1 | 2 | 3;
+  bitrateKbps: number;
+  sampleRate: number;
+  channels: 1 | 2;
+  padding: boolean;
+  crc: boolean;
+  frameLength: number;
+  samples: number;
+  durationMs: number;
+}
+
+// Largest possible frame: MPEG 2.5 layer II at 160kbps and 8kHz, plus padding
+export const MAX_FRAME_LENGTH = 2881;
+// Highest byte rate any header can describe (MPEG 1 layer I at 448kbps)
+export const MAX_BYTES_PER_MS = 56;
+
+const BITRATES: Record<string, readonly number[]> = {
+  "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  "2-3": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const SAMPLE_RATES: Record<string, readonly number[]> = {
+  "1": [44100, 48000, 32000],
+  "2": [22050, 24000, 16000],
+  "2.5": [11025, 12000, 8000],
+};
+
+const VERSIONS = [2.5, null, 2, 1] as const;
+const LAYERS = [null, 3, 2, 1] as const;
+
+export const parseFrameHeader = (data: Uint8Array, offset: number): Mp3FrameHeader | null => {
+  if (offset < 0 || offset + 4 > data.length) return null;
+
+  const b1 = data[offset + 1]!;
+  const b2 = data[offset + 2]!;
+  const b3 = data[offset + 3]!;
+  if (data[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const version = VERSIONS[(b1 >> 3) & 0x03];
+  const layer = LAYERS[(b1 >> 1) & 0x03];
+  if (!version || !layer) return null;
+
+  // Free-format (0) and the reserved index (15) have no fixed frame length
+  const bitrateKbps = BITRATES[`${version === 1 ? 1 : 2}-${layer}`]?.[(b2 >> 4) & 0x0f];
+  const sampleRate = SAMPLE_RATES[String(version)]?.[(b2 >> 2) & 0x03];
+  if (!bitrateKbps || !sampleRate) return null;
+
+  const padding = ((b2 >> 1) & 0x01) === 1;
+  const samples = layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152;
+  const frameLength =
+    layer === 1
+      ? (Math.floor((12 * bitrateKbps * 1000) / sampleRate) + (padding ? 1 : 0)) * 4
+      : Math.floor(((samples / 8) * bitrateKbps * 1000) / sampleRate) + (padding ? 1 : 0);
+
+  return {
+    version,
+    layer,
+    bitrateKbps,
+    sampleRate,
+    channels: ((b3 >> 6) & 0x03) === 3 ? 1 : 2,
+    padding,
+    crc: (b1 & 0x01) === 0,
+    frameLength,
+    samples,
+    durationMs: (samples / sampleRate) * 1000,
+  };
+};
+
+const sameStream = (a: Mp3FrameHeader, b: Mp3FrameHeader) =>
+  a.version === b.version && a.layer === b.layer && a.sampleRate === b.sampleRate;
+
+// Finds the first offset where `frames` consecutive, consistent headers line up.
+// A single sync word is easily faked by audio data, so a lone match isn't trusted.
+export const findFrameSync = (data: Uint8Array, start: number, frames = 3): number => {
+  for (let offset = start; offset + 4 <= data.length; offset++) {
+    const first = parseFrameHeader(data, offset);
+    if (!first) continue;
+
+    let next = offset + first.frameLength;
+    let confirmed = 1;
+    while (confirmed < frames) {
+      const header = parseFrameHeader(data, next);
+      if (!header || !sameStream(first, header)) break;
+      next += header.frameLength;
+      confirmed += 1;
+    }
+
+    if (confirmed === frames) return offset;
+  }
+
+  return -1;
+};
+
+// Average bitrate over the complete frames in `data`, or null if too few line up
+export const measureBitrateKbps = (data: Uint8Array, minFrames = 10): number | null => {
+  let offset = findFrameSync(data, 0);
+  if (offset < 0) return null;
+
+  let bytes = 0;
+  let durationMs = 0;
+  let frames = 0;
+  let header = parseFrameHeader(data, offset);
+  while (header && offset + header.frameLength <= data.length) {
+    bytes += header.frameLength;
+    durationMs += header.durationMs;
+    frames += 1;
+    offset += header.frameLength;
+    header = parseFrameHeader(data, offset);
+  }
+
+  return frames >= minFrames ? Math.round((bytes * 8) / durationMs) : null;
+};
+
+// Number of back-to-back frames from the start of `data`
+export const countFrames = (data: Uint8Array): number => {
+  let frames = 0;
+  let offset = 0;
+  let header = parseFrameHeader(data, offset);
+  while (header) {
+    frames += 1;
+    offset += header.frameLength;
+    header = parseFrameHeader(data, offset);
+  }
+  return frames;
+};
+
+// Each global_gain step scales the decoded samples by 2^(1/4)
+export const GAIN_STEP_DB = 1.5;
+
+const readBits = (data: Uint8Array, bit: number, count: number) => {
+  let value = 0;
+  for (let i = 0; i < count; i++) {
+    const b = bit + i;
+    value = (value << 1) | ((data[b >> 3]! >> (7 - (b & 7))) & 1);
+  }
+  return value;
+};
+
+const writeBits = (data: Uint8Array, bit: number, count: number, value: number) => {
+  for (let i = 0; i < count; i++) {
+    const b = bit + i;
+    const mask = 1 << (7 - (b & 7));
+    if ((value >> (count - 1 - i)) & 1) data[b >> 3]! |= mask;
+    else data[b >> 3]! &= ~mask;
+  }
+};
+
+// Shifts the global_gain of every granule and channel in a layer III frame, which changes
+// its loudness without decoding (the same trick mp3gain uses). -Infinity silences the
+// frame. Any CRC is left stale; decoders don't check it by default.
+export const adjustFrameGain = (
+  data: Uint8Array,
+  offset: number,
+  header: Mp3FrameHeader,
+  steps: number,
+) => {
+  if (header.layer !== 3 || steps === 0) return;
+
+  const mpeg1 = header.version === 1;
+  const granules = mpeg1 ? 2 : 1;
+  // main_data_begin, private bits and (MPEG 1 only) scfsi precede the granule info
+  const preamble = mpeg1 ? (header.channels === 1 ? 18 : 20) : header.channels === 1 ? 9 : 10;
+  const blockBits = mpeg1 ? 59 : 63;
+  const sideInfo = (offset + 4 + (header.crc ? 2 : 0)) * 8 + preamble;
+  if (sideInfo + granules * header.channels * blockBits > data.length * 8) return;
+
+  for (let block = 0; block < granules * header.channels; block++) {
+    // global_gain follows part2_3_length (12 bits) and big_values (9 bits)
+    const bit = sideInfo + block * blockBits + 21;
+    const gain = Math.min(255, Math.max(0, readBits(data, bit, 8) + steps));
+    writeBits(data, bit, 8, gain);
+  }
+};
@@ -0,0 +1,204 @@
+// OpenAPI description of the HTTP API, served at /openapi.json
+const json = (schema: object) => ({ "application/json": { schema } });
+
+const error = (description: string) => ({
+  description,
+  content: json({ $ref: "#/components/schemas/Error" }),
+});
+
+const playbackChange = (summary: string, conflict: string) => ({
+  post: {
+    summary,
+    responses: {
+      "200": {
+        description: "New playback state",
+        content: json({ $ref: "#/components/schemas/Playback" }),
+      },
+      "409": error(conflict),
+    },
+  },
+});
+
+export const apiDescription = {
+  openapi: "3.0.3",
+  info: {
+    title: "Classic FM buffer player",
+    version: "1.0.0",
+    description: "Errors use the Error envelope with the matching HTTP status.",
+  },
+  paths: {
+    "/health": {
+      get: {
+        summary: "Buffer, playback, stream and schedule status",
+        responses: {
+          "200": { description: "Healthy or degraded", content: json({ type: "object" }) },
+          "503": { description: "Unhealthy", content: json({ type: "object" }) },
+        },
+      },
+    },
+    "/playback": {
+      get: {
+        summary: "Current playback state",
+        responses: {
+          "200": {
+            description: "Playback state",
+            content: json({ $ref: "#/components/schemas/Playback" }),
+          },
+        },
+      },
+    },
+    "/playback/start": playbackChange("Start buffering and playback", "Already started"),
+    "/playback/stop": playbackChange("Stop playback and buffering", "Already stopped"),
+    "/playback/pause": playbackChange(
+      "Fade out and pause; buffering continues",
+      "Not playing or buffering",
+    ),
+    "/playback/resume": playbackChange("Resume paused playback", "Not paused"),
+    "/volume": {
+      get: {
+        summary: "Current volume",
+        responses: {
+          "200": { description: "Volume", content: json({ $ref: "#/components/schemas/Volume" }) },
+        },
+      },
+      put: {
+        summary: "Set the volume",
+        requestBody: {
+          required: true,
+          content: json({
+            type: "object",
+            required: ["volume"],
+            properties: { volume: { type: "number", minimum: 0, maximum: 200 } },
+          }),
+        },
+        responses: {
+          "200": {
+            description: "New volume",
+            content: json({ $ref: "#/components/schemas/Volume" }),
+          },
+          "400": error("Missing or out-of-range volume"),
+        },
+      },
+    },
+    "/rebuild": {
+      post: {
+        summary: "Rebuild the buffer",
+        parameters: [{ name: "reason", in: "query", required: false, schema: { type: "string" } }],
+        responses: {
+          "202": {
+            description: "Rebuild started",
+            content: json({
+              type: "object",
+              properties: { status: { type: "string", enum: ["started"] } },
+            }),
+          },
+          "409": error("A rebuild is already running"),
+        },
+      },
+    },
+    "/metrics": {
+      get: {
+        summary: "Prometheus metrics",
+        responses: {
+          "200": { description: "Text exposition format", content: { "text/plain": {} } },
+        },
+      },
+    },
+    "/events": {
+      get: {
+        summary: "Server-Sent Events for playback, buffer, stream, player and rebuild changes",
+        parameters: [
+          {
+            name: "Last-Event-ID",
+            in: "header",
+            required: false,
+            schema: { type: "integer" },
+            description: "Replay the remembered events after this ID",
+          },
+        ],
+        responses: { "200": { description: "Event stream", content: { "text/event-stream": {} } } },
+      },
+    },
+    "/history": {
+      get: {
+        summary: "Recorded outages, player exits, rebuilds and pauses, with daily totals",
+        parameters: [
+          {
+            name: "type",
+            in: "query",
+            required: false,
+            schema: { type: "string" },
+            description:
+              "Comma-separated; any of outage, connect_failure, read_timeout, silence, buffering, player_exit, rebuild, pause, resume",
+          },
+          {
+            name: "from",
+            in: "query",
+            required: false,
+            schema: { type: "string", format: "date-time" },
+            description: "Defaults to a week before `to`",
+          },
+          {
+            name: "to",
+            in: "query",
+            required: false,
+            schema: { type: "string", format: "date-time" },
+            description: "Defaults to now",
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            schema: { type: "integer", minimum: 1, maximum: 1000, default: 100 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Entries newest first, and a summary per day",
+            content: json({ type: "object" }),
+          },
+          "400": error("Unknown type, invalid date or limit"),
+        },
+      },
+    },
+    "/config": {
+      get: {
+        summary: "Settings in effect, with secrets redacted",
+        responses: {
+          "200": {
+            description: "The config file, when it was last loaded, and every setting",
+            content: json({ type: "object" }),
+          },
+        },
+      },
+    },
+    "/listen": {
+      get: {
+        summary: "Re-stream of the buffered audio",
+        responses: {
+          "200": { description: "MP3 stream", content: { "audio/mpeg": {} } },
+          "503": error("Too many listeners"),
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["status", "error"],
+        properties: { status: { type: "string", enum: ["error"] }, error: { type: "string" } },
+      },
+      Playback: {
+        type: "object",
+        properties: {
+          playback: { type: "string", enum: ["stopped", "buffering", "playing", "paused"] },
+        },
+      },
+      Volume: {
+        type: "object",
+        properties: { volume: { type: "number" }, gainDb: { type: "number", nullable: true } },
+      },
+    },
+  },
+};
@@ -0,0 +1,125 @@
+// Control panel served at / to browsers. Self-contained so it works on a LAN without
+// internet access; it polls /health, listens on /events and calls the same endpoints as curl would.
+export const panelHtml = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Classic FM</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0; padding: 1.5rem; background: #f6f3ee; color: #222; font-size: 1.4rem; }
+  main { max-width: 32rem; margin: 0 auto; }
+  h1 { font-size: 2rem; margin: 0 0 1rem; }
+  .card { background: #fff; border-radius: 1rem; padding: 1.2rem; margin-bottom: 1rem; box-shadow: 0 1px 4px rgba(0,0,0,.1); }
+  .label { font-size: 1rem; color: #666; }
+  .value { font-size: 1.6rem; font-weight: 600; overflow-wrap: anywhere; }
+  .bar { height: 1.4rem; background: #e5e0d8; border-radius: .7rem; overflow: hidden; margin-top: .4rem; }
+  .bar > div { height: 100%; width: 0; background: #2f7d4f; transition: width .5s; }
+  button { display: block; width: 100%; font-size: 1.8rem; padding: 1.2rem; margin-bottom: 1rem; border: 0; border-radius: 1rem; color: #fff; background: #2f6f9f; cursor: pointer; }
+  button:disabled { opacity: .5; }
+  button.secondary { background: #8a6d3b; font-size: 1.3rem; padding: .9rem; }
+  input[type=range] { width: 100%; height: 2.5rem; }
+  #message { min-height: 1.6rem; color: #a33; font-size: 1.1rem; }
+</style>
+</head>
+<body>
+<main>
+  <h1>Classic FM</h1>
+  <div class="card">
+    <div class="label">Now</div>
+    <div class="value" id="state">Loading…</div>
+    <div class="label" style="margin-top:.8rem">Playing</div>
+    <div class="value" id="track">—</div>
+  </div>
+  <button id="toggle" disabled>…</button>
+  <div class="card">
+    <div class="label">Volume <span id="volumeValue"></span></div>
+    <input type="range" id="volume" min="0" max="200" step="5">
+  </div>
+  <div class="card">
+    <div class="label">Buffer <span id="bufferValue"></span></div>
+    <div class="bar"><div id="buffer"></div></div>
+    <div class="label" style="margin-top:.8rem">Next rebuild</div>
+    <div class="value" id="nextRebuild">—</div>
+  </div>
+  <button class="secondary" id="rebuild">Rebuild buffer</button>
+  <div id="message"></div>
+</main>
+<script>
+  const $ = (id) => document.getElementById(id);
+  const states = { playing: "Playing", paused: "Paused", buffering: "Buffering…", stopped: "Stopped" };
+  let playback = null;
+  let dragging = false;
+
+  const show = (text) => { $("message").textContent = text; };
+
+  const call = async (method, path, body) => {
+    try {
+      const res = await fetch(path, { method, body: body && JSON.stringify(body) });
+      if (!res.ok) show((await res.json().catch(() => ({}))).error || "Something went wrong");
+      else show("");
+      return res;
+    } catch {
+      show("Can't reach the radio");
+    }
+  };
+
+  const refresh = async () => {
+    try {
+      const health = await (await fetch("/health")).json();
+      playback = health.playback;
+      $("state").textContent = (states[playback] || playback) + (health.quietHours ? " (quiet hours)" : "");
+      $("track").textContent = health.track?.playing || "—";
+      $("buffer").style.width = Math.min(100, health.buffer.percentage) + "%";
+      $("bufferValue").textContent = Math.round(health.buffer.percentage) + "%";
+      $("nextRebuild").textContent = new Date(health.nextRebuild).toLocaleString();
+      $("toggle").textContent = playback === "paused" || playback === "stopped" ? "▶ Play" : "⏸ Pause";
+      $("toggle").disabled = false;
+    } catch {
+      show("Can't reach the radio");
+    }
+  };
+
+  const refreshVolume = async () => {
+    const res = await call("GET", "/volume");
+    if (res?.ok && !dragging) {
+      const { volume } = await res.json();
+      $("volume").value = volume;
+      $("volumeValue").textContent = volume + "%";
+    }
+  };
+
+  $("toggle").onclick = async () => {
+    const action = playback === "paused" ? "resume" : playback === "stopped" ? "start" : "pause";
+    await call("POST", "/playback/" + action);
+    refresh();
+  };
+
+  $("volume").oninput = () => {
+    dragging = true;
+    $("volumeValue").textContent = $("volume").value + "%";
+  };
+  $("volume").onchange = async () => {
+    await call("PUT", "/volume", { volume: Number($("volume").value) });
+    dragging = false;
+  };
+
+  $("rebuild").onclick = async () => {
+    if (!confirm("Rebuild the buffer? Playback continues while it refills.")) return;
+    const res = await call("POST", "/rebuild?reason=control panel");
+    if (res?.status === 409) show("A rebuild is already running");
+    else if (res?.ok) show("Rebuild started");
+  };
+
+  // Refresh right away when something happens instead of waiting for the next poll
+  const events = new EventSource("/events");
+  for (const type of ["playback", "buffer", "stream", "rebuild"]) events.addEventListener(type, refresh);
+
+  refresh();
+  refreshVolume();
+  setInterval(refresh, 3000);
+  setInterval(refreshVolume, 15000);
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test";
+import { DateTime, Either } from "effect";
+import { isListeningTime, nextTransitions, parseListeningSchedule } from "./schedule";
+
+const parse = (spec: string) => Either.getOrThrow(parseListeningSchedule(spec));
+
+const utc = DateTime.zoneUnsafeMakeNamed("UTC");
+const london = DateTime.zoneUnsafeMakeNamed("Europe/London");
+
+const transitions = (spec: string, from: string, count: number) =>
+  nextTransitions(parse(spec), london, new Date(from), count).map((transition) => [
+    transition.at.toISOString(),
+    transition.to,
+  ]);
+
+describe("parseListeningSchedule", () => {
+  test("reads days and times", () => {
+    expect(parse("mon-fri 07:00-22:00; Sat,Sun 08:30-24:00")).toEqual([
+      { days: new Set([1, 2, 3, 4, 5]), start: 420, end: 1320 },
+      { days: new Set([6, 0]), start: 510, end: 1440 },
+    ]);
+    expect(parse("daily 22:00-06:00")).toEqual([
+      { days: new Set([0, 1, 2, 3, 4, 5, 6]), start: 1320, end: 360 },
+    ]);
+    expect(parse("")).toEqual([]);
+  });
+
+  test("wraps day ranges around the week", () => {
+    expect(parse("fri-mon 10:00-12:00")[0]!.days).toEqual(new Set([5, 6, 0, 1]));
+  });
+
+  test("rejects invalid entries", () => {
+    for (const spec of [
+      "mon-fri 7-22",
+      "funday 07:00-08:00",
+      "mon 07:00",
+      "mon 07:00-08:00 extra",
+      "mon 07:60-08:00",
+      "mon 07:00-24:30",
+      "mon-fri 07:00-22:00; weekends",
+    ]) {
+      expect(Either.isLeft(parseListeningSchedule(spec))).toBe(true);
+    }
+    expect(parseListeningSchedule("mon 07:00-07:00")).toEqual(
+      Either.left('Schedule entry "mon 07:00-07:00" starts and ends at the same time'),
+    );
+  });
+});
+
+describe("isListeningTime", () => {
+  test("is always listening time without a schedule", () => {
+    expect(isListeningTime([], utc, new Date("2026-10-17T03:00:00Z"))).toBe(true);
+  });
+
+  test("checks the window's days", () => {
+    const windows = parse("mon-fri 07:00-22:00");
+    // Friday 16 and Saturday 17 October 2026
+    expect(isListeningTime(windows, utc, new Date("2026-10-16T07:00:00Z"))).toBe(true);
+    expect(isListeningTime(windows, utc, new Date("2026-10-16T22:00:00Z"))).toBe(false);
+    expect(isListeningTime(windows, utc, new Date("2026-10-17T12:00:00Z"))).toBe(false);
+  });
+
+  test("runs a window past midnight into the next day", () => {
+    const windows = parse("fri 22:00-02:00");
+    expect(isListeningTime(windows, utc, new Date("2026-10-16T21:59:00Z"))).toBe(false);
+    expect(isListeningTime(windows, utc, new Date("2026-10-16T23:00:00Z"))).toBe(true);
+    expect(isListeningTime(windows, utc, new Date("2026-10-17T01:59:00Z"))).toBe(true);
+    expect(isListeningTime(windows, utc, new Date("2026-10-17T02:00:00Z"))).toBe(false);
+    // The early hours of Friday belong to Thursday
+    expect(isListeningTime(windows, utc, new Date("2026-10-16T01:00:00Z"))).toBe(false);
+  });
+
+  test("uses local time", () => {
+    const windows = parse("daily 07:00-22:00");
+    // 07:30 BST
+    expect(isListeningTime(windows, london, new Date("2026-07-01T06:30:00Z"))).toBe(true);
+    expect(isListeningTime(windows, utc, new Date("2026-07-01T06:30:00Z"))).toBe(false);
+  });
+});
+
+describe("nextTransitions", () => {
+  test("lists the changes between play and quiet", () => {
+    expect(transitions("mon-fri 07:00-22:00", "2026-01-16T12:00:00Z", 3)).toEqual([
+      ["2026-01-16T22:00:00.000Z", "quiet"],
+      ["2026-01-19T07:00:00.000Z", "play"],
+      ["2026-01-19T22:00:00.000Z", "quiet"],
+    ]);
+  });
+
+  test("merges back-to-back and overlapping windows", () => {
+    expect(
+      transitions(
+        "daily 07:00-12:00; daily 12:00-18:00; daily 17:00-20:00",
+        "2026-01-16T00:00:00Z",
+        2,
+      ),
+    ).toEqual([
+      ["2026-01-16T07:00:00.000Z", "play"],
+      ["2026-01-16T20:00:00.000Z", "quiet"],
+    ]);
+  });
+
+  test("follows the clocks going forward", () => {
+    // BST starts at 01:00 UTC on 29 March 2026
+    expect(transitions("daily 07:00-22:00", "2026-03-28T12:00:00Z", 3)).toEqual([
+      ["2026-03-28T22:00:00.000Z", "quiet"],
+      ["2026-03-29T06:00:00.000Z", "play"],
+      ["2026-03-29T21:00:00.000Z", "quiet"],
+    ]);
+
+    // 01:30 is skipped that night, so the window starts an hour later with the clocks
+    expect(transitions("daily 01:30-06:00", "2026-03-28T12:00:00Z", 3)).toEqual([
+      ["2026-03-29T01:30:00.000Z", "play"],
+      ["2026-03-29T05:00:00.000Z", "quiet"],
+      ["2026-03-30T00:30:00.000Z", "play"],
+    ]);
+  });
+
+  test("follows the clocks going back", () => {
+    // BST ends at 01:00 UTC on 25 October 2026
+    expect(transitions("daily 07:00-22:00", "2026-10-24T12:00:00Z", 3)).toEqual([
+      ["2026-10-24T21:00:00.000Z", "quiet"],
+      ["2026-10-25T07:00:00.000Z", "play"],
+      ["2026-10-25T22:00:00.000Z", "quiet"],
+    ]);
+
+    // 01:30 happens twice that night; the window starts at the first one
+    expect(transitions("daily 01:30-06:00", "2026-10-24T12:00:00Z", 3)).toEqual([
+      ["2026-10-25T00:30:00.000Z", "play"],
+      ["2026-10-25T06:00:00.000Z", "quiet"],
+      ["2026-10-26T01:30:00.000Z", "play"],
+    ]);
+  });
+
+  test("has none when the windows cover the whole week", () => {
+    expect(transitions("daily 00:00-24:00", "2026-01-16T12:00:00Z", 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { Cron, DateTime, Either } from "effect";
+
+// A play window in local time; minutes since midnight. An end at or before the start
+// runs past midnight into the next day.
+export interface ListeningWindow {
+  days: ReadonlySet<number>;
+  start: number;
+  end: number;
+}
+
+export interface ScheduleTransition {
+  at: Date;
+  to: "play" | "quiet";
+}
+
+const DAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const parseDays = (spec: string): number[] | null => {
+  if (spec === "daily") return [0, 1, 2, 3, 4, 5, 6];
+
+  const days: number[] = [];
+  for (const part of spec.split(",")) {
+    const [from, to] = part.split("-").map((day) => DAYS.indexOf(day));
+    if (from === undefined || from < 0 || to === -1) return null;
+    // Ranges may wrap around the week, e.g. fri-mon
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.push(day);
+      if (to === undefined || day === to) break;
+    }
+  }
+  return days;
+};
+
+const parseTime = (spec: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(spec);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+};
+
+// Parses "mon-fri 07:00-22:00; sat,sun 08:30-23:00". Outside these windows is quiet time.
+export const parseListeningSchedule = (spec: string): Either.Either<ListeningWindow[], string> => {
+  const windows: ListeningWindow[] = [];
+
+  for (const entry of spec.split(";")) {
+    const trimmed = entry.trim().toLowerCase();
+    if (!trimmed) continue;
+
+    const [daySpec, timeSpec, ...rest] = trimmed.split(/\s+/);
+    const [startSpec, endSpec] = timeSpec?.split("-") ?? [];
+    const days = daySpec ? parseDays(daySpec) : null;
+    const start = startSpec ? parseTime(startSpec) : null;
+    const end = endSpec ? parseTime(endSpec) : null;
+
+    if (rest.length > 0 || !days || start === null || end === null) {
+      return Either.left(
+        `Invalid schedule entry "${entry.trim()}"; expected e.g. "mon-fri 07:00-22:00"`,
+      );
+    }
+    if (start === end) {
+      return Either.left(`Schedule entry "${entry.trim()}" starts and ends at the same time`);
+    }
+
+    windows.push({ days: new Set(days), start: start % 1440, end });
+  }
+
+  return Either.right(windows);
+};
+
+const localTime = (at: Date, zone: DateTime.TimeZone) => {
+  const parts = DateTime.toParts(DateTime.unsafeMakeZoned(at, { timeZone: zone }));
+  return { day: parts.weekDay, minute: parts.hours * 60 + parts.minutes };
+};
+
+export const isListeningTime = (
+  windows: readonly ListeningWindow[],
+  zone: DateTime.TimeZone,
+  at: Date,
+) => {
+  if (windows.length === 0) return true;
+
+  const { day, minute } = localTime(at, zone);
+  return windows.some((window) =>
+    window.end > window.start
+      ? window.days.has(day) && minute >= window.start && minute < window.end
+      : (window.days.has(day) && minute >= window.start) ||
+        (window.days.has((day + 6) % 7) && minute < window.end),
+  );
+};
+
+// Window edges as cron schedules, so DST gaps and repeats follow the timezone rules
+const edgeCrons = (windows: readonly ListeningWindow[], zone: DateTime.TimeZone) =>
+  windows.flatMap((window) => {
+    const endsNextDay = window.end <= window.start || window.end === 1440;
+    const at = (minute: number, days: Iterable<number>) =>
+      Cron.make({
+        minutes: [minute % 60],
+        hours: [Math.floor(minute / 60) % 24],
+        days: [],
+        months: [],
+        weekdays: days,
+        tz: zone,
+      });
+
+    return [
+      at(window.start, window.days),
+      at(window.end, endsNextDay ? [...window.days].map((day) => (day + 1) % 7) : window.days),
+    ];
+  });
+
+// The next `count` times the schedule switches between play and quiet. Overlapping or
+// back-to-back windows are merged, so every transition actually changes the state.
+export const nextTransitions = (
+  windows: readonly ListeningWindow[],
+  zone: DateTime.TimeZone,
+  from: Date,
+  count: number,
+): ScheduleTransition[] => {
+  const crons = edgeCrons(windows, zone);
+  const transitions: ScheduleTransition[] = [];
+  let playing = isListeningTime(windows, zone, from);
+  let at = from;
+
+  // Bounded in case the windows cover the whole week
+  for (let i = 0; i < 100 && crons.length > 0 && transitions.length < count; i++) {
+    at = new Date(Math.min(...crons.map((cron) => Cron.next(cron, at).getTime())));
+    const next = isListeningTime(windows, zone, at);
+    if (next !== playing) {
+      transitions.push({ at, to: next ? "play" : "quiet" });
+      playing = next;
+    }
+  }
+
+  return transitions;
+};
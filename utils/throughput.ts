@@ -0,0 +1,38 @@
+// Byte counter over a sliding window, bucketed per second so memory stays constant
+export const createThroughputMeter = (windowMs: number) => {
+  const bucketMs = 1000;
+  const buckets = new Map<number, number>();
+  let startedAt = Date.now();
+
+  const prune = (now: number) => {
+    const oldest = Math.floor((now - windowMs) / bucketMs);
+    for (const key of buckets.keys()) {
+      if (key <= oldest) buckets.delete(key);
+    }
+  };
+
+  return {
+    record: (bytes: number, now = Date.now()) => {
+      const key = Math.floor(now / bucketMs);
+      buckets.set(key, (buckets.get(key) ?? 0) + bytes);
+      if (buckets.size > windowMs / bucketMs + 1) prune(now);
+    },
+
+    reset: (now = Date.now()) => {
+      buckets.clear();
+      startedAt = now;
+    },
+
+    // Time covered so far, capped at the window
+    elapsedMs: (now = Date.now()) => Math.min(windowMs, now - startedAt),
+
+    bytesPerSecond: (now = Date.now()) => {
+      prune(now);
+      const elapsedMs = Math.min(windowMs, now - startedAt);
+      if (elapsedMs <= 0) return 0;
+      let total = 0;
+      for (const bytes of buckets.values()) total += bytes;
+      return (total / elapsedMs) * 1000;
+    },
+  };
+};